@@ -1,3 +1,5 @@
+import { KeyBindings } from '../types';
+
 /**
  * Game constants - Semua nilai konfigurasi game
  */
@@ -18,6 +20,15 @@ const scaleByHeight = windowHeight / DESIGN_HEIGHT;
 // Gunakan scale yang lebih kecil agar muat sempurna
 const SCALE_FACTOR = Math.min(scaleByWidth, scaleByHeight) * 2;
 
+// Parent origins dari deploy config (VITE_ALLOWED_PARENT_ORIGINS, dipisah koma)
+const ENV_PARENT_ORIGINS = (import.meta.env.VITE_ALLOWED_PARENT_ORIGINS || '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(origin => origin !== '');
+
+// Parent lokal hanya diizinkan di dev server, build production tidak menerima page lokal
+const DEV_PARENT_ORIGINS = import.meta.env.DEV ? ['http://localhost:*', 'http://127.0.0.1:*'] : [];
+
 export const GAME_CONSTANTS = {
   // Design Reference Resolution (fixed size untuk game logic)
   DESIGN_WIDTH: DESIGN_WIDTH,
@@ -34,9 +45,11 @@ export const GAME_CONSTANTS = {
   // Tile size - scaled agar proporsional
   TILE_SIZE: Math.floor(43 * SCALE_FACTOR),
 
-  // Grid dimensions
+  // Grid dimensions (default, mode bisa override lewat grid_width / grid_height)
   GRID_WIDTH: 8,
   GRID_HEIGHT: 9,
+  GRID_MIN_SIZE: 4, // Piece terbesar 4 tiles
+  GRID_MAX_SIZE: 20,
 
   // Play area dimensions and position - scaled agar proporsional
   PLAY_AREA_WIDTH: Math.floor(353 * SCALE_FACTOR),
@@ -50,6 +63,30 @@ export const GAME_CONSTANTS = {
   // Drop speed
   DROP_INTERVAL: 1500, // 1.5 second
 
+  // Double tap tombol down dalam waktu ini = hard drop
+  HARD_DROP_DOUBLE_TAP_MS: 300,
+
+  // Keyboard auto-repeat: DAS = delay sebelum repeat, ARR = interval repeat (ms)
+  KEYBOARD_DAS: 170,
+  KEYBOARD_ARR: 50,
+
+  // Gesture di play area (swipe/drag/tap) - jarak di-scale agar sama rasanya di semua layar
+  GESTURE_DRAG_STEP: Math.floor(24 * SCALE_FACTOR), // Jarak drag per kolom
+  GESTURE_FLICK_DISTANCE: Math.floor(50 * SCALE_FACTOR), // Jarak minimal flick ke bawah
+  GESTURE_FLICK_VELOCITY: 0.5 * SCALE_FACTOR, // Kecepatan minimal flick (px/ms)
+  GESTURE_TAP_DISTANCE: Math.floor(10 * SCALE_FACTOR), // Gerakan maksimal untuk tap
+  GESTURE_TAP_MAX_MS: 250,
+
+  // Gamepad: left stick dianggap ditekan di atas nilai ini (0..1)
+  GAMEPAD_STICK_DEADZONE: 0.5,
+
+  // Fixed game tick - game logic jalan per tick agar replay deterministic
+  FIXED_TICK_MS: 1000 / 60,
+  MAX_TICKS_PER_FRAME: 40, // Batas catch-up per frame (termasuk replay speed)
+
+  // Replay
+  REPLAY_SPEEDS: [0.5, 1, 2, 4, 8],
+
   // Timer
   COUNTDOWN_DURATION: 60, // 3 minutes in seconds
   TIMER_WARNING_ORANGE: 30, // Orange warning below 30 seconds
@@ -70,6 +107,25 @@ export const GAME_CONSTANTS = {
   PREVIEW_SCALE: 0.85,
   PREVIEW_BASE_SPACING_MULTIPLIER: 0.5, // tile_size * scale * this value
 
+  // Ghost piece (special_tag "ghost")
+  GHOST_ALPHA: 0.35,
+
+  // Hold slot (special_tag "hold") di kiri baris next preview
+  HOLD_PREVIEW_SCALE: 0.6,
+
+  // Loading screen (PreloadScene) - bar gradient memakai warna brand mode explorer/builder
+  LOADING_BAR_WIDTH: Math.floor(260 * SCALE_FACTOR),
+  LOADING_BAR_HEIGHT: Math.floor(14 * SCALE_FACTOR),
+  LOADING_BAR_COLOR_START: 0x70C3FF,
+  LOADING_BAR_COLOR_END: 0xFD70FF,
+
+  // Tombol utama di overlay (ResultsScene, PauseScene)
+  MENU_BUTTON_COLOR: 0xFD70FF,
+
+  // Pause overlay (PauseScene) - board di-blur (WebGL) dan di-dim agar tidak bisa dipakai untuk planning
+  PAUSE_DIM_ALPHA: 0.6,
+  PAUSE_BLUR_STRENGTH: 2,
+
   // Control buttons - scaled agar proporsional
   BUTTON_SIZE: Math.floor(75 * SCALE_FACTOR),
   BUTTON_SPACING: Math.floor(12 * SCALE_FACTOR),
@@ -88,6 +144,8 @@ export const GAME_CONSTANTS = {
   INSTRUCTION_LINE_SPACING: Math.floor(1 * SCALE_FACTOR),
   PROFILE_SIZE: Math.floor(40 * SCALE_FACTOR),
   PROFILE_NAME_SPACING: Math.floor(10 * SCALE_FACTOR), // 10px spacing after profile
+  SCORE_WIDTH: Math.floor(55 * SCALE_FACTOR), // Ruang untuk score di kiri timer
+  LEVEL_WIDTH: Math.floor(40 * SCALE_FACTOR), // Ruang untuk level indicator di kiri score
 
   // Text wrapping - scaled agar proporsional
   INSTRUCTION_WORD_WRAP_WIDTH: Math.floor(373 * SCALE_FACTOR), // 393 - 20px margins
@@ -96,78 +154,32 @@ export const GAME_CONSTANTS = {
   TETROMINO_LIST_RIGHT_MARGIN: Math.floor(60 * SCALE_FACTOR), // 393 - startX = 60
 
   TETROMINO_FONT_SIZE: 13 * SCALE_FACTOR,
+
+  // Waktu tunggu INIT dari parent sebelum fallback ke URL parameters
+  INIT_TIMEOUT: 2000, // 2 seconds
+
+  // Parent origins yang boleh kirim/terima postMessage (lihat protocol/messages.ts)
+  // "*" = satu segment host/port, origin parent production di-set lewat VITE_ALLOWED_PARENT_ORIGINS
+  ALLOWED_PARENT_ORIGINS: [
+    window.location.origin,
+    ...ENV_PARENT_ORIGINS,
+    ...DEV_PARENT_ORIGINS,
+  ] as string[],
+};
+
+// Default keyboard bindings (KeyboardEvent.code), bisa di-remap dari info panel atau INIT
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveLeft: ['ArrowLeft', 'KeyA'],
+  moveRight: ['ArrowRight', 'KeyD'],
+  softDrop: ['ArrowDown', 'KeyS'],
+  hardDrop: ['Space'],
+  rotate: ['ArrowUp', 'KeyW'],
+  skip: ['KeyC'],
+  switch: ['KeyV'],
+  hold: ['ShiftLeft', 'KeyH'],
 };
 
 export const ASSET_PATHS = {
-  // UI Assets
-  BACKGROUND: '/images/background.png',
-  PROFILE: '/images/profile-placeholder.png',
-  DEFAULT_PLAY_AREA: '/images/panel-play-area-purple.png',
-  TIMER_BG: '/images/timer-bg.png',
-  HEADER_BG: '/images/bg-header.png',
-
-  // Control Buttons
-  BUTTONS: {
-    SKIP: '/images/button/skip.png',
-    SWITCH: '/images/button/switch.png',
-    LEFT: '/images/button/left.png',
-    RIGHT: '/images/button/right.png',
-    DOWN: '/images/button/down.png',
-    ROTATE: '/images/button/rotate.png',
-    MUTE: '/images/mute.png',
-    UNMUTE: '/images/unmute.png',
-    INFO: '/images/info.png',
-  },
-
-  // Shape Images - Color Versions
-  SHAPES_COLOR: {
-    I: '/images/shapes/colours/i.png',
-    J: '/images/shapes/colours/j.png',
-    L: '/images/shapes/colours/l.png',
-    O: '/images/shapes/colours/o.png',
-    S: '/images/shapes/colours/s.png',
-    T: '/images/shapes/colours/t.png',
-    Z: '/images/shapes/colours/z.png',
-  },
-
-  // Shape Images - Outline Versions
-  SHAPES_OUTLINE: {
-    I: '/images/shapes/outline/i.png',
-    J: '/images/shapes/outline/j.png',
-    L: '/images/shapes/outline/l.png',
-    O: '/images/shapes/outline/o.png',
-    S: '/images/shapes/outline/s.png',
-    T: '/images/shapes/outline/t.png',
-    Z: '/images/shapes/outline/z.png',
-  },
-
-  // Shape Images - Prediction Versions
-  SHAPES_PREDICTION: {
-    I: '/images/shapes/prediction/i.png',
-    J: '/images/shapes/prediction/j.png',
-    L: '/images/shapes/prediction/l.png',
-    O: '/images/shapes/prediction/o.png',
-    S: '/images/shapes/prediction/s.png',
-    T: '/images/shapes/prediction/t.png',
-    Z: '/images/shapes/prediction/z.png',
-  },
-
-  // Slider Assets
-  SLIDER: {
-    BACKGROUND: '/images/slider/progress-bar.png',
-    PROGRESS: '/images/slider/progress.png',
-    HANDLING: '/images/slider/handling.png',
-  },
-
-  // Data Files
-  DATA: {
-    SHAPES: '/shape_data.json',
-    GAMEPLAY_CONFIG: '/gameplay_config.json',
-  },
-
-  // Audio Files
-  AUDIO: {
-    BGM: '/audio/BGM.mp3',
-    BLOCK_SFX: '/audio/Block SFX.mp3',
-  },
+  // Semua asset lain (images, data, audio) ada di manifest ini, lihat AssetLoader
+  ASSET_MANIFEST: '/asset_manifest.json',
 };
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { GameInitConfig } from '../protocol/messages';
+
+/**
+ * Session config dari URL query parameters (fallback jika parent tidak mengirim INIT)
+ */
+export function parseUrlConfig(search: string): GameInitConfig {
+  const urlParams = new URLSearchParams(search);
+  const config: GameInitConfig = {};
+
+  const typeParam = urlParams.get('type');
+  if (typeParam) {
+    config.gameplayType = typeParam;
+  }
+
+  const timerParam = urlParams.get('timer');
+  const timer = timerParam ? parseInt(timerParam, 10) : NaN;
+  if (timer > 0) {
+    config.timer = timer;
+  }
+
+  const username = urlParams.get('username');
+  if (username) {
+    config.username = username;
+  }
+
+  // Format: ?suggested_skills=%5B%22Agile%22%2C%22Adaptable%22%5D = ["Agile","Adaptable"]
+  const suggestedSkills = parseJsonArrayParam(urlParams.get('suggested_skills'), 'suggested_skills');
+  if (suggestedSkills) {
+    config.suggestedSkills = suggestedSkills;
+    console.log('Suggested skills loaded:', suggestedSkills);
+  }
+
+  // Format: ?no_duplicates=%5B%22Adaptable%22%5D = ["Adaptable"]
+  const noDuplicates = parseJsonArrayParam(urlParams.get('no_duplicates'), 'no_duplicates');
+  if (noDuplicates) {
+    config.noDuplicates = noDuplicates;
+    console.log('No duplicates loaded:', noDuplicates);
+  }
+
+  const seed = urlParams.get('seed');
+  if (seed) {
+    config.seed = seed;
+  }
+
+  const muted = urlParams.get('muted');
+  if (muted !== null) {
+    config.muted = muted === '1' || muted === 'true';
+  }
+
+  return config;
+}
+
+/**
+ * Gabungkan config INIT dari parent dengan fallback (URL parameters)
+ * Field INIT yang undefined tidak menimpa fallback
+ */
+export function mergeInitConfig(fallback: GameInitConfig, init: GameInitConfig): GameInitConfig {
+  const merged: GameInitConfig = { ...fallback };
+  (Object.keys(init) as (keyof GameInitConfig)[]).forEach(key => {
+    if (init[key] !== undefined) {
+      (merged as Record<string, unknown>)[key] = init[key];
+    }
+  });
+  return merged;
+}
+
+/**
+ * Decode URL-encoded JSON array of strings
+ */
+function parseJsonArrayParam(value: string | null, name: string): string[] | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(decodeURIComponent(value));
+    if (Array.isArray(parsed) && parsed.every(item => typeof item === 'string')) {
+      return parsed;
+    }
+    console.error(`${name} parameter is not an array of strings`);
+  } catch (e) {
+    console.error(`Failed to parse ${name} parameter:`, e);
+  }
+  return null;
+}
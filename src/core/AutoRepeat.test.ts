@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { AutoRepeat } from './AutoRepeat';
+
+describe('AutoRepeat', () => {
+  it('waits for DAS before the first repeat', () => {
+    const repeat = new AutoRepeat(170, 50, 8);
+    expect(repeat.update(100)).toBe(0);
+    expect(repeat.update(69)).toBe(0);
+    expect(repeat.update(1)).toBe(1);
+  });
+
+  it('repeats every ARR after DAS', () => {
+    const repeat = new AutoRepeat(170, 50, 8);
+    repeat.update(170);
+    expect(repeat.update(49)).toBe(0);
+    expect(repeat.update(1)).toBe(1);
+    expect(repeat.update(100)).toBe(2);
+  });
+
+  it('caps repeats per frame at maxRepeats', () => {
+    const repeat = new AutoRepeat(0, 10, 8);
+    expect(repeat.update(1000)).toBe(8);
+  });
+
+  it('moves to the wall every frame with ARR 0', () => {
+    const repeat = new AutoRepeat(170, 0, 8);
+    expect(repeat.update(100)).toBe(0);
+    expect(repeat.update(70)).toBe(8);
+    expect(repeat.update(16)).toBe(8);
+    expect(repeat.update(16)).toBe(8);
+
+    repeat.setMaxRepeats(12);
+    expect(repeat.update(16)).toBe(12);
+  });
+
+  it('starts DAS again after reset', () => {
+    const repeat = new AutoRepeat(170, 0, 8);
+    repeat.update(200);
+    repeat.reset();
+    expect(repeat.update(16)).toBe(0);
+    expect(repeat.update(154)).toBe(8);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * AutoRepeat - Timing DAS/ARR untuk move left/right yang ditahan
+ *
+ * DAS (delayed auto shift) = jeda sebelum repeat pertama, ARR (auto repeat rate) = jeda antar repeat.
+ * ARR 0 = langsung ke wall: setiap frame mengirim maxRepeats move (cukup untuk melintasi grid).
+ * Tidak ada dependency ke Phaser, controller yang menentukan arah dan mengirim aksinya.
+ */
+export class AutoRepeat {
+  private das: number;
+  private arr: number;
+  private maxRepeats: number;
+  private timer: number = 0;
+  private isRepeating: boolean = false;
+
+  constructor(das: number, arr: number, maxRepeats: number) {
+    this.das = das;
+    this.arr = arr;
+    this.maxRepeats = maxRepeats;
+  }
+
+  setRepeat(das: number, arr: number): void {
+    this.das = das;
+    this.arr = arr;
+  }
+
+  /**
+   * Batas move per frame (lebar grid mode ini)
+   */
+  setMaxRepeats(maxRepeats: number): void {
+    this.maxRepeats = maxRepeats;
+  }
+
+  /**
+   * Arah baru ditekan / dilepas - mulai DAS dari awal
+   */
+  reset(): void {
+    this.timer = 0;
+    this.isRepeating = false;
+  }
+
+  /**
+   * Satu frame selama arah ditahan
+   * @returns Jumlah move yang harus dikirim frame ini
+   */
+  update(delta: number): number {
+    this.timer += delta;
+
+    let count = 0;
+    if (!this.isRepeating) {
+      if (this.timer < this.das) return 0;
+      this.isRepeating = true;
+      this.timer -= this.das;
+      count++;
+    }
+
+    if (this.arr <= 0) {
+      this.timer = 0;
+      return this.maxRepeats;
+    }
+
+    while (this.timer >= this.arr && count < this.maxRepeats) {
+      this.timer -= this.arr;
+      count++;
+    }
+    return count;
+  }
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { BoardModel } from './BoardModel';
+import { Tetromino } from '../types';
+
+// Helper: tetromino minimal untuk test (shape data hanya dipakai untuk nama)
+function piece(shapeName: string, matrix: number[][], x: number, y: number, labels: string[] = []): Tetromino {
+  return {
+    shape: { shape_name: shapeName, text_position: [[0, 0]], matrix, label: [] },
+    x,
+    y,
+    rotation: 0,
+    matrix,
+    labels
+  };
+}
+
+const O = [[1, 1], [1, 1]];
+const I = [[1, 1, 1, 1]];
+
+describe('BoardModel collision', () => {
+  it('allows placement inside an empty board', () => {
+    const board = new BoardModel(4, 4);
+    expect(board.canPlace({ x: 0, y: 0, matrix: O })).toBe(true);
+    expect(board.canPlace({ x: 2, y: 2, matrix: O })).toBe(true);
+  });
+
+  it('rejects placement outside the walls and floor', () => {
+    const board = new BoardModel(4, 4);
+    expect(board.canPlace({ x: -1, y: 0, matrix: O })).toBe(false);
+    expect(board.canPlace({ x: 3, y: 0, matrix: O })).toBe(false);
+    expect(board.canPlace({ x: 0, y: 3, matrix: O })).toBe(false);
+  });
+
+  it('ignores cells above the grid', () => {
+    const board = new BoardModel(4, 4);
+    expect(board.canPlace({ x: 0, y: -1, matrix: O })).toBe(true);
+  });
+
+  it('rejects placement over locked tiles', () => {
+    const board = new BoardModel(4, 4);
+    board.lock(piece('O', O, 0, 2));
+    expect(board.canPlace({ x: 1, y: 1, matrix: O })).toBe(false);
+    expect(board.canPlace({ x: 2, y: 2, matrix: O })).toBe(true);
+  });
+
+  it('finds the landing position on top of the stack', () => {
+    const board = new BoardModel(4, 6);
+    expect(board.findLandingPosition({ x: 0, y: 0, matrix: O })).toEqual({ x: 0, y: 4 });
+
+    board.lock(piece('O', O, 0, 4));
+    expect(board.findLandingPosition({ x: 1, y: 0, matrix: O })).toEqual({ x: 1, y: 2 });
+  });
+});
+
+describe('BoardModel locking', () => {
+  it('fills the grid with the piece id and shape name', () => {
+    const board = new BoardModel(4, 4);
+    const locked = board.lock(piece('O', O, 1, 2, ['Teamwork']));
+
+    expect(locked.id).toBe(1);
+    expect(locked.labels).toEqual(['Teamwork']);
+    expect(locked.cells).toHaveLength(4);
+    expect(board.getGrid()[2][1]).toEqual({ filled: true, shapeName: 'O', pieceId: 1 });
+    expect(board.getGrid()[3][2]).toEqual({ filled: true, shapeName: 'O', pieceId: 1 });
+    expect(board.getGrid()[2][0].filled).toBe(false);
+    expect(board.getFilledCount()).toBe(4);
+  });
+
+  it('drops cells outside the grid', () => {
+    const board = new BoardModel(4, 4);
+    const locked = board.lock(piece('O', O, 0, -1));
+
+    expect(locked.cells).toHaveLength(2);
+    expect(board.getFilledCount()).toBe(2);
+    expect(board.isGameOver()).toBe(true);
+  });
+
+  it('copies the matrix and labels of the tetromino', () => {
+    const board = new BoardModel(4, 4);
+    const tetromino = piece('O', O.map(row => [...row]), 0, 2, ['A']);
+    const locked = board.lock(tetromino);
+
+    tetromino.matrix[0][0] = 0;
+    tetromino.labels.push('B');
+    expect(locked.matrix[0][0]).toBe(1);
+    expect(locked.labels).toEqual(['A']);
+  });
+});
+
+describe('BoardModel line detection', () => {
+  it('finds completed rows from top to bottom', () => {
+    const board = new BoardModel(4, 4);
+    board.lock(piece('I', I, 0, 1));
+    board.lock(piece('I', I, 0, 3));
+    board.lock(piece('D', [[1, 1]], 0, 2));
+
+    expect(board.findCompletedRows()).toEqual([1, 3]);
+  });
+
+  it('clears rows and shifts the cells above down', () => {
+    const board = new BoardModel(4, 4);
+    const bottom = board.lock(piece('I', I, 0, 3));
+    const top = board.lock(piece('O', O, 0, 1));
+    const result = board.clearRows(board.findCompletedRows());
+
+    expect(result.rows).toEqual([3]);
+    expect(result.removedPieceIds).toEqual([bottom.id]);
+    expect(result.movedPieceIds).toEqual([top.id]);
+    expect(board.getPiece(bottom.id)).toBeUndefined();
+    expect(board.getGrid()[3][0]).toEqual({ filled: true, shapeName: 'O', pieceId: top.id });
+    expect(board.getGrid()[1][0].filled).toBe(false);
+    expect(board.getFilledCount()).toBe(4);
+  });
+
+  it('keeps the remaining cells of a partially cleared piece', () => {
+    const board = new BoardModel(2, 3);
+    const o = board.lock(piece('O', O, 0, 1));
+    const result = board.clearRows([2]);
+
+    expect(result.affectedPieceIds).toEqual([o.id]);
+    expect(result.removedPieceIds).toEqual([]);
+    expect(board.getPiece(o.id)?.cells).toEqual([{ col: 0, row: 0, x: 0, y: 2 }, { col: 1, row: 0, x: 1, y: 2 }]);
+  });
+
+  it('ignores duplicate and out of range rows', () => {
+    const board = new BoardModel(4, 4);
+    board.lock(piece('I', I, 0, 3));
+    const result = board.clearRows([3, 3, -1, 10]);
+
+    expect(result.rows).toEqual([3]);
+    expect(board.getFilledCount()).toBe(0);
+  });
+});
+
+describe('BoardModel serialization', () => {
+  it('round-trips through serialize and fromSnapshot', () => {
+    const board = new BoardModel(5, 6);
+    board.lock(piece('I', I, 0, 5, ['A']));
+    board.lock(piece('O', O, 3, 4, ['B', 'C']));
+    board.clearRows([5]);
+
+    const snapshot = JSON.parse(JSON.stringify(board.serialize()));
+    const restored = BoardModel.fromSnapshot(snapshot);
+
+    expect(restored.serialize()).toEqual(board.serialize());
+    expect(restored.getGrid()).toEqual(board.getGrid());
+    expect(restored.getWidth()).toBe(5);
+    expect(restored.getHeight()).toBe(6);
+  });
+
+  it('continues piece ids after restoring', () => {
+    const board = new BoardModel(4, 4);
+    board.lock(piece('O', O, 0, 2));
+    const restored = BoardModel.fromSnapshot(board.serialize());
+
+    expect(restored.lock(piece('O', O, 2, 2)).id).toBe(2);
+  });
+
+  it('does not share state with the snapshot', () => {
+    const board = new BoardModel(4, 4);
+    board.lock(piece('O', O, 0, 2));
+    const snapshot = board.serialize();
+    const restored = BoardModel.fromSnapshot(snapshot);
+
+    snapshot.pieces[0].cells[0].y = 0;
+    board.clearRows([3]);
+    expect(restored.getGrid()[2][0].pieceId).toBe(1);
+    expect(restored.getFilledCount()).toBe(4);
+  });
+});
@@ -0,0 +1,328 @@
+import { Tetromino, GridTile, LockedPiece, PieceCell, LineClearResult, BoardSnapshot } from '../types';
+
+/**
+ * Bagian tetromino yang dibutuhkan untuk collision check
+ */
+export type PlacementTarget = Pick<Tetromino, 'x' | 'y' | 'matrix'>;
+
+/**
+ * BoardModel - Grid logic murni (collision, locking, line detection, serialization)
+ *
+ * Tidak ada dependency ke Phaser maupun window, jadi bisa dipakai di Node
+ * untuk unit test dan simulasi. GameBoard me-render dari state model ini.
+ */
+export class BoardModel {
+  private width: number;
+  private height: number;
+  private grid: GridTile[][] = [];
+  private pieces: Map<number, LockedPiece> = new Map();
+  private nextPieceId: number = 1;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.initializeGrid();
+  }
+
+  /**
+   * Initialize grid dengan empty tiles
+   */
+  private initializeGrid(): void {
+    this.grid = [];
+    for (let row = 0; row < this.height; row++) {
+      this.grid[row] = [];
+      for (let col = 0; col < this.width; col++) {
+        this.grid[row][col] = { filled: false };
+      }
+    }
+  }
+
+  /**
+   * Check apakah tetromino bisa ditempatkan di posisi tertentu
+   * Tile di atas grid (y < 0) diabaikan untuk collision
+   */
+  canPlace(tetromino: PlacementTarget): boolean {
+    const matrix = tetromino.matrix;
+
+    for (let row = 0; row < matrix.length; row++) {
+      for (let col = 0; col < matrix[row].length; col++) {
+        if (matrix[row][col] === 1) {
+          const gridX = tetromino.x + col;
+          const gridY = tetromino.y + row;
+
+          // Check bounds
+          if (gridX < 0 || gridX >= this.width || gridY >= this.height) {
+            return false;
+          }
+
+          // Check collision dengan locked tiles (abaikan jika masih di atas grid)
+          if (gridY >= 0 && this.grid[gridY][gridX].filled) {
+            return false;
+          }
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Cari posisi landing: turunkan terus sampai collision (dipakai hard drop dan prediction)
+   */
+  findLandingPosition(tetromino: PlacementTarget): { x: number; y: number } {
+    let testY = tetromino.y;
+
+    // Keep moving down until collision
+    while (this.canPlace({ ...tetromino, y: testY + 1 })) {
+      testY++;
+    }
+
+    return { x: tetromino.x, y: testY };
+  }
+
+  /**
+   * Lock tetromino ke grid
+   * Cell di luar grid tidak disimpan
+   * @returns LockedPiece yang baru dibuat
+   */
+  lock(tetromino: Tetromino): LockedPiece {
+    const cells: PieceCell[] = [];
+    const matrix = tetromino.matrix;
+
+    for (let row = 0; row < matrix.length; row++) {
+      for (let col = 0; col < matrix[row].length; col++) {
+        if (matrix[row][col] === 1) {
+          const gridX = tetromino.x + col;
+          const gridY = tetromino.y + row;
+
+          if (this.isInside(gridX, gridY)) {
+            cells.push({ col, row, x: gridX, y: gridY });
+          }
+        }
+      }
+    }
+
+    const piece: LockedPiece = {
+      id: this.nextPieceId++,
+      shapeName: tetromino.shape.shape_name,
+      rotation: tetromino.rotation,
+      labels: [...tetromino.labels],
+      x: tetromino.x,
+      y: tetromino.y,
+      matrix: matrix.map(row => [...row]),
+      cells
+    };
+
+    this.pieces.set(piece.id, piece);
+    for (const cell of cells) {
+      this.grid[cell.y][cell.x] = { filled: true, shapeName: piece.shapeName, pieceId: piece.id };
+    }
+
+    return piece;
+  }
+
+  /**
+   * Cari semua row yang penuh (urut dari atas ke bawah)
+   */
+  findCompletedRows(): number[] {
+    const rows: number[] = [];
+    for (let row = 0; row < this.height; row++) {
+      if (this.grid[row].every(tile => tile.filled)) {
+        rows.push(row);
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * Clear rows dan turunkan semua cell di atasnya
+   * Cell tetap milik piece asalnya, jadi piece yang terpotong tetap bisa di-render per cell
+   */
+  clearRows(rows: number[]): LineClearResult {
+    const cleared = [...new Set(rows)].filter(row => row >= 0 && row < this.height).sort((a, b) => a - b);
+    const result: LineClearResult = { rows: cleared, affectedPieceIds: [], removedPieceIds: [], movedPieceIds: [] };
+
+    if (cleared.length === 0) {
+      return result;
+    }
+
+    for (const piece of this.pieces.values()) {
+      const before = piece.cells.length;
+      piece.cells = piece.cells.filter(cell => !cleared.includes(cell.y));
+
+      if (piece.cells.length < before) {
+        result.affectedPieceIds.push(piece.id);
+      }
+
+      let moved = false;
+      for (const cell of piece.cells) {
+        // Turun sebanyak jumlah cleared row di bawah cell ini
+        const shift = cleared.filter(row => row > cell.y).length;
+        if (shift > 0) {
+          cell.y += shift;
+          moved = true;
+        }
+      }
+      if (moved) {
+        result.movedPieceIds.push(piece.id);
+      }
+
+      if (piece.cells.length === 0) {
+        result.removedPieceIds.push(piece.id);
+      }
+    }
+
+    for (const id of result.removedPieceIds) {
+      this.pieces.delete(id);
+    }
+
+    this.rebuildGrid();
+    return result;
+  }
+
+  /**
+   * Check apakah game over (ada tile filled di row 0)
+   */
+  isGameOver(): boolean {
+    return this.grid[0].some(tile => tile.filled);
+  }
+
+  /**
+   * Jumlah tile yang terisi
+   */
+  getFilledCount(): number {
+    return this.grid.reduce((count, row) => count + row.filter(tile => tile.filled).length, 0);
+  }
+
+  /**
+   * Persentase tile terisi (0-100)
+   */
+  getFillPercentage(): number {
+    return (this.getFilledCount() / (this.width * this.height)) * 100;
+  }
+
+  /**
+   * Tinggi stack: jumlah row dari row terisi paling atas sampai bawah (0 = board kosong)
+   */
+  getStackHeight(): number {
+    const topRow = this.grid.findIndex(row => row.some(tile => tile.filled));
+    return topRow === -1 ? 0 : this.height - topRow;
+  }
+
+  /**
+   * Hitung holes: tile kosong yang di atasnya (kolom yang sama) ada tile terisi
+   */
+  countHoles(): number {
+    let holes = 0;
+    for (let x = 0; x < this.width; x++) {
+      let covered = false;
+      for (let y = 0; y < this.height; y++) {
+        if (this.grid[y][x].filled) {
+          covered = true;
+        } else if (covered) {
+          holes++;
+        }
+      }
+    }
+    return holes;
+  }
+
+  /**
+   * Reset board
+   */
+  reset(): void {
+    this.pieces.clear();
+    this.nextPieceId = 1;
+    this.initializeGrid();
+  }
+
+  /**
+   * Ganti ukuran grid (ukuran per mode) - board dikosongkan
+   */
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+    this.reset();
+  }
+
+  /**
+   * Serialize board state ke plain object (aman untuk JSON.stringify)
+   */
+  serialize(): BoardSnapshot {
+    return {
+      width: this.width,
+      height: this.height,
+      nextPieceId: this.nextPieceId,
+      pieces: [...this.pieces.values()].map(piece => this.clonePiece(piece))
+    };
+  }
+
+  /**
+   * Buat BoardModel dari hasil serialize()
+   */
+  static fromSnapshot(snapshot: BoardSnapshot): BoardModel {
+    const model = new BoardModel(snapshot.width, snapshot.height);
+    for (const piece of snapshot.pieces) {
+      model.pieces.set(piece.id, model.clonePiece(piece));
+    }
+    model.nextPieceId = snapshot.nextPieceId;
+    model.rebuildGrid();
+    return model;
+  }
+
+  /**
+   * Rebuild grid dari cell semua pieces
+   */
+  private rebuildGrid(): void {
+    this.initializeGrid();
+    for (const piece of this.pieces.values()) {
+      for (const cell of piece.cells) {
+        if (this.isInside(cell.x, cell.y)) {
+          this.grid[cell.y][cell.x] = { filled: true, shapeName: piece.shapeName, pieceId: piece.id };
+        }
+      }
+    }
+  }
+
+  private clonePiece(piece: LockedPiece): LockedPiece {
+    return {
+      ...piece,
+      labels: [...piece.labels],
+      matrix: piece.matrix.map(row => [...row]),
+      cells: piece.cells.map(cell => ({ ...cell }))
+    };
+  }
+
+  private isInside(x: number, y: number): boolean {
+    return x >= 0 && x < this.width && y >= 0 && y < this.height;
+  }
+
+  /**
+   * Get grid state (read only, jangan di-mutate dari luar)
+   */
+  getGrid(): GridTile[][] {
+    return this.grid;
+  }
+
+  /**
+   * Get locked piece berdasarkan id
+   */
+  getPiece(id: number): LockedPiece | undefined {
+    return this.pieces.get(id);
+  }
+
+  /**
+   * Get semua locked pieces yang masih ada di board
+   */
+  getPieces(): LockedPiece[] {
+    return [...this.pieces.values()];
+  }
+
+  getWidth(): number {
+    return this.width;
+  }
+
+  getHeight(): number {
+    return this.height;
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  Tetromino,
+  LockedPiece,
+  GameEndReason,
+  GameResult,
+  ScoreBreakdown,
+  LockedSkillResult,
+  SkippedSkillResult,
+  SwitchedSkillResult
+} from '../types';
+import { BoardModel } from './BoardModel';
+
+/**
+ * GameResultTracker - Catat skill yang di-lock, di-skip dan di-switch selama satu session
+ * lalu susun GameResult di akhir game. Tidak ada dependency ke Phaser.
+ */
+export class GameResultTracker {
+  private locked: LockedSkillResult[] = [];
+  private skipped: SkippedSkillResult[] = [];
+  private switched: SwitchedSkillResult[] = [];
+
+  reset(): void {
+    this.locked = [];
+    this.skipped = [];
+    this.switched = [];
+  }
+
+  /**
+   * Catat piece yang baru di-lock (posisi cell saat lock)
+   */
+  recordLock(piece: LockedPiece, tick: number): void {
+    const cells = piece.cells.map(cell => ({ x: cell.x, y: cell.y }));
+    this.locked.push({
+      pieceId: piece.id,
+      shape: piece.shapeName,
+      rotation: piece.rotation,
+      labels: [...piece.labels],
+      cells,
+      remainingCells: cells,
+      tick
+    });
+  }
+
+  recordSkip(tetromino: Tetromino, tick: number): void {
+    this.skipped.push({
+      shape: tetromino.shape.shape_name,
+      rotation: tetromino.rotation,
+      labels: [...tetromino.labels],
+      tick
+    });
+  }
+
+  recordSwitch(from: Tetromino, to: Tetromino, tick: number): void {
+    this.switched.push({
+      fromShape: from.shape.shape_name,
+      toShape: to.shape.shape_name,
+      fromLabels: [...from.labels],
+      labels: [...to.labels],
+      tick
+    });
+  }
+
+  /**
+   * Susun hasil akhir dari board state dan data yang sudah dicatat
+   */
+  build(board: BoardModel, info: {
+    mode: string;
+    seed: number;
+    endReason: GameEndReason;
+    timeUsed: number;
+    timeLimit: number;
+    score: number;
+    scoreBreakdown: ScoreBreakdown;
+    level: number;
+  }): GameResult {
+    // Cell yang tersisa di board (bisa berkurang / turun karena line clear)
+    const locked = this.locked.map(entry => {
+      const piece = board.getPiece(entry.pieceId);
+      return {
+        ...entry,
+        remainingCells: piece ? piece.cells.map(cell => ({ x: cell.x, y: cell.y })) : []
+      };
+    });
+
+    return {
+      mode: info.mode,
+      seed: info.seed,
+      endReason: info.endReason,
+      timeUsed: Math.round(info.timeUsed * 100) / 100,
+      timeLimit: info.timeLimit,
+      fillPercentage: Math.round(board.getFillPercentage() * 100) / 100,
+      holes: board.countHoles(),
+      score: info.score,
+      scoreBreakdown: info.scoreBreakdown,
+      level: info.level,
+      grid: { width: board.getWidth(), height: board.getHeight() },
+      locked,
+      skipped: [...this.skipped],
+      switched: [...this.switched]
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { LockDelayRules } from '../types';
+
+/**
+ * Default rules jika mode tidak punya "lock_delay" di gameplay_config.json
+ * delay_ms 0 = lock langsung, mode yang butuh lock delay harus set sendiri
+ */
+export const DEFAULT_LOCK_DELAY_RULES: LockDelayRules = {
+  delay_ms: 0,
+  max_resets: 15
+};
+
+/**
+ * LockDelay - Piece yang menyentuh dasar tidak langsung di-lock
+ *
+ * Selama grounded, timer berjalan per game tick; piece di-lock saat timer >= delay_ms.
+ * Move/rotate yang berhasil saat grounded me-reset timer, maksimal max_resets kali per piece.
+ * Jatah reset kembali penuh jika piece turun ke row yang lebih rendah dari sebelumnya.
+ * delay_ms 0 = lock langsung (perilaku lama). Tidak ada dependency ke Phaser.
+ */
+export class LockDelay {
+  private rules: LockDelayRules = { ...DEFAULT_LOCK_DELAY_RULES };
+  private timer: number = 0;
+  private resets: number = 0;
+  private lowestY: number = 0;
+  private grounded: boolean = false;
+
+  /**
+   * Set rules dari gameplay config (field yang kosong memakai default)
+   */
+  setRules(rules?: Partial<LockDelayRules>): void {
+    this.rules = { ...DEFAULT_LOCK_DELAY_RULES, ...rules };
+  }
+
+  getRules(): LockDelayRules {
+    return { ...this.rules };
+  }
+
+  isEnabled(): boolean {
+    return this.rules.delay_ms > 0;
+  }
+
+  /**
+   * Reset untuk piece baru (spawn / keluar dari hold)
+   */
+  reset(y: number): void {
+    this.timer = 0;
+    this.resets = 0;
+    this.lowestY = y;
+    this.grounded = false;
+  }
+
+  /**
+   * Satu game tick
+   * @returns true jika piece harus di-lock sekarang
+   */
+  step(tickMs: number, isGrounded: boolean): boolean {
+    this.grounded = isGrounded;
+    if (!isGrounded) {
+      this.timer = 0;
+      return false;
+    }
+
+    this.timer += tickMs;
+    return this.timer >= this.rules.delay_ms;
+  }
+
+  /**
+   * Piece turun satu row - row baru terendah = jatah reset penuh lagi
+   */
+  onMoveDown(y: number): void {
+    if (y > this.lowestY) {
+      this.lowestY = y;
+      this.resets = 0;
+    }
+  }
+
+  /**
+   * Move / rotate berhasil - reset timer jika grounded dan jatah reset masih ada
+   */
+  onMoveOrRotate(): void {
+    if (!this.grounded || this.resets >= this.rules.max_resets) return;
+    this.resets++;
+    this.timer = 0;
+  }
+
+  isGrounded(): boolean {
+    return this.grounded;
+  }
+
+  /**
+   * Progress timer 0..1 (untuk visual cue)
+   */
+  getProgress(): number {
+    if (!this.isEnabled()) return 0;
+    return Math.min(this.timer / this.rules.delay_ms, 1);
+  }
+}
@@ -0,0 +1,152 @@
+import { ShapeData } from '../types';
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Randomizer - Strategy untuk memilih shape berikutnya di queue
+ *
+ * ShapeManager memberi daftar shape yang boleh dipakai mode ini (adapter tanpa S/Z).
+ * Jika shape yang dipilih ditolak (S/Z tanpa label 2 kata), ShapeManager memanggil putBack
+ * lalu next lagi, jadi strategy bisa mengembalikan shape itu ke pool-nya.
+ */
+export interface Randomizer {
+  readonly name: string;
+
+  next(shapes: ShapeData[], random: SeededRandom): ShapeData;
+
+  /**
+   * Shape dari next() terakhir ditolak dan akan di-reroll
+   */
+  putBack(shape: ShapeData): void;
+
+  reset(): void;
+}
+
+/**
+ * Shape group untuk gap rule: S/Z dan L/J dianggap sama
+ */
+function getShapeGroup(shapeName: string): string {
+  if (shapeName === 's' || shapeName === 'z') return 'sz';
+  if (shapeName === 'l' || shapeName === 'j') return 'lj';
+  return shapeName;
+}
+
+/**
+ * Gap (default): random pick, tapi group yang muncul di SHAPE_GAP pick terakhir di-skip
+ */
+export class GapRandomizer implements Randomizer {
+  readonly name = 'gap';
+  private readonly SHAPE_GAP: number = 3;
+  private recentShapeGroups: string[] = [];
+
+  next(shapes: ShapeData[], random: SeededRandom): ShapeData {
+    let availableShapes = shapes;
+
+    if (this.recentShapeGroups.length > 0 && availableShapes.length > this.recentShapeGroups.length) {
+      availableShapes = availableShapes.filter(shape =>
+        !this.recentShapeGroups.includes(getShapeGroup(shape.shape_name))
+      );
+    }
+
+    const selectedShape = random.pick(availableShapes);
+
+    this.recentShapeGroups.push(getShapeGroup(selectedShape.shape_name));
+    if (this.recentShapeGroups.length > this.SHAPE_GAP) {
+      this.recentShapeGroups.shift();
+    }
+
+    return selectedShape;
+  }
+
+  putBack(): void {
+    // Shape yang ditolak tetap dihitung di recent groups (perilaku lama)
+  }
+
+  reset(): void {
+    this.recentShapeGroups = [];
+  }
+}
+
+/**
+ * 7-bag: setiap shape muncul tepat sekali per bag (urutan di-shuffle), lalu bag baru
+ * Shape yang ditolak kembali ke akhir bag; jika isi bag tinggal shape yang ditolak, mulai bag baru
+ */
+export class BagRandomizer implements Randomizer {
+  readonly name = 'bag';
+  private bag: ShapeData[] = [];
+  private rejected: Set<string> = new Set();
+  private lastWasRejected: boolean = false;
+
+  next(shapes: ShapeData[], random: SeededRandom): ShapeData {
+    if (!this.lastWasRejected) {
+      this.rejected.clear();
+    }
+    this.lastWasRejected = false;
+
+    // Buang shape yang tidak ada di daftar mode ini (mis. setelah ganti mode)
+    this.bag = this.bag.filter(shape => shapes.includes(shape));
+
+    if (this.bag.every(shape => this.rejected.has(shape.shape_name))) {
+      this.bag = random.shuffle(shapes);
+    }
+
+    return this.bag.shift()!;
+  }
+
+  putBack(shape: ShapeData): void {
+    this.rejected.add(shape.shape_name);
+    this.lastWasRejected = true;
+    this.bag.push(shape);
+  }
+
+  reset(): void {
+    this.bag = [];
+    this.rejected.clear();
+    this.lastWasRejected = false;
+  }
+}
+
+/**
+ * Weighted: random pick dengan bobot per shape_name (shape tanpa bobot = 1, bobot 0 = tidak pernah)
+ */
+export class WeightedRandomizer implements Randomizer {
+  readonly name = 'weighted';
+  private weights: Record<string, number>;
+
+  constructor(weights: Record<string, number> = {}) {
+    this.weights = weights;
+  }
+
+  next(shapes: ShapeData[], random: SeededRandom): ShapeData {
+    const weightOf = (shape: ShapeData) => Math.max(this.weights[shape.shape_name] ?? 1, 0);
+    const total = shapes.reduce((sum, shape) => sum + weightOf(shape), 0);
+    if (total <= 0) {
+      return random.pick(shapes);
+    }
+
+    let roll = random.next() * total;
+    for (const shape of shapes) {
+      roll -= weightOf(shape);
+      if (roll < 0) return shape;
+    }
+    return shapes[shapes.length - 1];
+  }
+
+  putBack(): void {
+    // Tidak ada state, reroll cukup pick ulang
+  }
+
+  reset(): void {
+    // Tidak ada state
+  }
+}
+
+/**
+ * Randomizer yang bisa dipilih lewat gameplay_config.json ("randomizer", "shape_weights")
+ */
+export function createRandomizer(name?: string, weights?: Record<string, number>): Randomizer {
+  switch (name) {
+    case 'bag': return new BagRandomizer();
+    case 'weighted': return new WeightedRandomizer(weights);
+    default: return new GapRandomizer();
+  }
+}
@@ -0,0 +1,120 @@
+import { ShapeData, Tetromino } from '../types';
+import { PlacementTarget } from './BoardModel';
+
+/**
+ * RotationSystem - Aturan rotate tetromino (rotation states dan wall kicks)
+ *
+ * Rotation states dan kick tables diambil dari shape_data.json:
+ * - "rotations": rotation yang boleh dipakai shape ini (default [0, 90, 180, 270])
+ * - "kicks": offset [dx, dy] per transisi "from>to" (dy positif = turun), dicoba berurutan
+ *   Offset relatif ke posisi kiri-atas matrix (bukan pivot SRS), jadi angkanya disesuaikan per shape
+ *
+ * Matrix untuk rotation R selalu = shape.matrix di-rotate clockwise R/90 kali,
+ * jadi kembali ke state 0 berarti kembali ke matrix original.
+ */
+export interface RotationSystem {
+  readonly name: string;
+
+  /**
+   * Rotate clockwise ke rotation state berikutnya
+   * @returns Tetromino hasil rotate, atau null jika semua posisi (termasuk kicks) gagal
+   */
+  rotate(tetromino: Tetromino, canPlace: (target: PlacementTarget) => boolean): Tetromino | null;
+}
+
+export const DEFAULT_ROTATION_STATES = [0, 90, 180, 270];
+
+/**
+ * Rotation states yang boleh dipakai shape (dari shape_data.json)
+ */
+export function getRotationStates(shape: ShapeData): number[] {
+  return shape.rotations && shape.rotations.length > 0 ? shape.rotations : DEFAULT_ROTATION_STATES;
+}
+
+/**
+ * Rotate matrix 90° clockwise
+ */
+export function rotateMatrixClockwise(matrix: number[][]): number[][] {
+  const rows = matrix.length;
+  const cols = matrix[0].length;
+  const rotated: number[][] = [];
+
+  for (let col = 0; col < cols; col++) {
+    const newRow: number[] = [];
+    for (let row = rows - 1; row >= 0; row--) {
+      newRow.push(matrix[row][col]);
+    }
+    rotated.push(newRow);
+  }
+
+  return rotated;
+}
+
+/**
+ * Matrix shape untuk rotation tertentu
+ */
+export function getMatrixForRotation(shape: ShapeData, rotation: number): number[][] {
+  let matrix = shape.matrix.map(row => [...row]);
+  for (let i = 0; i < rotation / 90; i++) {
+    matrix = rotateMatrixClockwise(matrix);
+  }
+  return matrix;
+}
+
+/**
+ * Rotation state berikutnya (clockwise) sesuai rotation states shape
+ */
+function getNextRotation(tetromino: Tetromino): number {
+  const states = getRotationStates(tetromino.shape);
+  const index = states.indexOf(tetromino.rotation);
+  return states[(index + 1) % states.length];
+}
+
+/**
+ * Basic: rotate di tempat, gagal jika posisi baru collision (tanpa kicks)
+ */
+export class BasicRotationSystem implements RotationSystem {
+  readonly name = 'basic';
+
+  rotate(tetromino: Tetromino, canPlace: (target: PlacementTarget) => boolean): Tetromino | null {
+    const rotation = getNextRotation(tetromino);
+    if (rotation === tetromino.rotation) return null;
+
+    const rotated = { ...tetromino, rotation, matrix: getMatrixForRotation(tetromino.shape, rotation) };
+    return canPlace(rotated) ? rotated : null;
+  }
+}
+
+/**
+ * SRS-style: coba offset dari kick table shape secara berurutan, pakai yang pertama valid
+ * Shape tanpa kick table untuk transisi ini hanya mencoba [0, 0]
+ */
+export class KickTableRotationSystem implements RotationSystem {
+  readonly name = 'srs';
+
+  rotate(tetromino: Tetromino, canPlace: (target: PlacementTarget) => boolean): Tetromino | null {
+    const rotation = getNextRotation(tetromino);
+    if (rotation === tetromino.rotation) return null;
+
+    const matrix = getMatrixForRotation(tetromino.shape, rotation);
+    const kicks = tetromino.shape.kicks?.[`${tetromino.rotation}>${rotation}`] || [[0, 0]];
+
+    for (const [dx, dy] of kicks) {
+      // Jangan kick ke atas grid (cell di luar grid akan hilang saat lock)
+      if (tetromino.y + dy < 0) continue;
+
+      const kicked = { ...tetromino, rotation, matrix, x: tetromino.x + dx, y: tetromino.y + dy };
+      if (canPlace(kicked)) {
+        return kicked;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Rotation system yang bisa dipilih lewat gameplay_config.json ("rotation_system")
+ */
+export function createRotationSystem(name?: string): RotationSystem {
+  return name === 'basic' ? new BasicRotationSystem() : new KickTableRotationSystem();
+}
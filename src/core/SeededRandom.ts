@@ -0,0 +1,97 @@
+/**
+ * SeededRandom - Seedable PRNG (mulberry32) pengganti Math.random()
+ *
+ * Dengan seed, skills list dan input yang sama, urutan piece dan label akan sama.
+ * Tidak ada dependency ke Phaser, jadi bisa dipakai di Node.
+ */
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.createSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Buat seed baru (satu-satunya tempat yang memakai Math.random)
+   */
+  static createSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+
+  /**
+   * Parse seed dari URL parameter / parent message
+   * Angka dipakai langsung, string lain di-hash (FNV-1a) agar "workshop-1" juga valid
+   * @returns null jika value kosong atau tidak valid
+   */
+  static parseSeed(value: unknown): number | null {
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? Math.floor(value) >>> 0 : null;
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+      return null;
+    }
+
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+      return Number(trimmed) >>> 0;
+    }
+
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < trimmed.length; i++) {
+      hash ^= trimmed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Reset PRNG ke awal sequence untuk seed ini
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Float di range [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Integer di range [0, maxExclusive)
+   */
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  /**
+   * Ambil satu item secara random
+   */
+  pick<T>(items: T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+
+  /**
+   * Fisher-Yates shuffle (tidak mengubah array asli)
+   */
+  shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
@@ -1,5 +1,9 @@
 import { WEBGL, Game } from 'phaser';
+import { BootScene } from '../scenes/BootScene';
+import { PreloadScene } from '../scenes/PreloadScene';
 import { TetrisScene } from '../scenes/TetrisScene';
+import { ResultsScene } from '../scenes/ResultsScene';
+import { PauseScene } from '../scenes/PauseScene';
 import { GAME_CONSTANTS } from '../config/constants';
 
 /**
@@ -39,7 +43,12 @@ const config = {
     height: GAME_CONSTANTS.CANVAS_HEIGHT,
 
     backgroundColor: GAME_CONSTANTS.BACKGROUND_COLOR,
-    scene: [TetrisScene],
+    scene: [BootScene, PreloadScene, TetrisScene, ResultsScene, PauseScene],
+
+    // Gamepad plugin untuk controller fisik (kiosk)
+    input: {
+        gamepad: true
+    },
 
     scale: {
         mode: Phaser.Scale.FIT,
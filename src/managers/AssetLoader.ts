@@ -0,0 +1,231 @@
+import Phaser from 'phaser';
+import { AssetManifest, AssetPack, AssetType, MissingAsset } from '../types';
+import { ShapeManager } from './ShapeManager';
+
+// JSON cache key untuk asset_manifest.json
+const MANIFEST_KEY = 'assetManifest';
+
+// Field di asset pack per asset type
+const PACK_FIELDS: Record<AssetType, keyof AssetPack> = {
+  image: 'images',
+  json: 'json',
+  audio: 'audio'
+};
+
+// Key yang dipakai langsung oleh code - wajib ada di base pack (shape art punya fallback, lihat ShapeTextures)
+const REQUIRED_ASSETS: Record<AssetType, string[]> = {
+  image: [
+    'background', 'profile', 'timer_bg', 'header_bg',
+    'button_skip', 'button_switch', 'button_left', 'button_right', 'button_down', 'button_rotate',
+    'button_mute', 'button_unmute', 'button_info'
+  ],
+  json: ['shapeData', 'gameplayConfig', 'countdownAnimation'],
+  audio: ['blockSfx']
+};
+
+// Validasi isi data wajib - data yang ter-load tapi tidak bisa dipakai dianggap tidak tersedia
+const DATA_VALIDATORS: Record<string, (data: unknown) => boolean> = {
+  shapeData: data => ShapeManager.normalizeShapeData(data).length > 0
+};
+
+// Key wajib yang berbeda per mode - hanya ada di pack mode (tidak di base, supaya tidak di-load dua kali)
+const REQUIRED_MODE_ASSETS: Record<AssetType, string[]> = {
+  image: ['panel'],
+  json: [],
+  audio: []
+};
+
+/**
+ * Validasi asset_manifest.json - entry yang bukan string path di-skip dengan warning
+ * @returns null jika base pack tidak ada
+ */
+export function parseAssetManifest(data: unknown): AssetManifest | null {
+  const raw = data as { base?: unknown; modes?: unknown } | null;
+  if (!raw || typeof raw !== 'object' || !raw.base || typeof raw.base !== 'object') {
+    return null;
+  }
+
+  const modes: Record<string, AssetPack> = {};
+  if (raw.modes && typeof raw.modes === 'object') {
+    for (const [mode, pack] of Object.entries(raw.modes as Record<string, unknown>)) {
+      modes[mode] = parsePack(pack, `modes.${mode}`);
+    }
+  }
+
+  return { base: parsePack(raw.base, 'base'), modes };
+}
+
+function parsePack(data: unknown, name: string): AssetPack {
+  const pack: AssetPack = {};
+  if (!data || typeof data !== 'object') return pack;
+
+  for (const field of Object.values(PACK_FIELDS)) {
+    const entries = (data as Record<string, unknown>)[field];
+    if (entries === undefined) continue;
+    if (!entries || typeof entries !== 'object') {
+      console.warn(`Asset manifest ${name}.${field} must be an object of key → path`);
+      continue;
+    }
+
+    const paths: Record<string, string> = {};
+    for (const [key, path] of Object.entries(entries as Record<string, unknown>)) {
+      if (typeof path === 'string' && path !== '') {
+        paths[key] = path;
+      } else {
+        console.warn(`Asset manifest ${name}.${field}.${key} skipped: path must be a non-empty string`);
+      }
+    }
+    pack[field] = paths;
+  }
+  return pack;
+}
+
+/**
+ * AssetLoader - Loading asset dari asset_manifest.json lewat Phaser loader scene
+ *
+ * BootScene me-load manifest, PreloadScene me-load base pack, TetrisScene me-load pack mode
+ * setelah mode diketahui (override key yang sama di base). Manifest dibaca dari JSON cache
+ * (global), jadi setiap scene cukup membuat AssetLoader sendiri.
+ */
+export class AssetLoader {
+  private scene: Phaser.Scene;
+  private manifest: AssetManifest | null = null;
+  private modePack: AssetPack = {};
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+  }
+
+  /**
+   * Queue manifest (BootScene)
+   */
+  loadManifest(url: string): void {
+    this.scene.load.json(MANIFEST_KEY, url);
+  }
+
+  /**
+   * Manifest dari JSON cache (null jika belum di-load, gagal atau tidak valid)
+   */
+  getManifest(): AssetManifest | null {
+    if (!this.manifest && this.scene.cache.json.exists(MANIFEST_KEY)) {
+      this.manifest = parseAssetManifest(this.scene.cache.json.get(MANIFEST_KEY));
+      if (!this.manifest) {
+        console.error('Asset manifest is invalid: "base" pack is required');
+      }
+    }
+    return this.manifest;
+  }
+
+  /**
+   * Queue base pack (PreloadScene). Key yang sudah ada di cache di-skip oleh Phaser,
+   * jadi retry hanya me-load ulang file yang gagal
+   */
+  queueBasePack(): void {
+    const manifest = this.getManifest();
+    if (manifest) this.queuePack(manifest.base, false);
+  }
+
+  /**
+   * Queue satu image dari base pack (BootScene, mis. background untuk loading screen)
+   */
+  queueBaseImage(key: string): void {
+    const path = this.getManifest()?.base.images?.[key];
+    if (path) this.scene.load.image(key, path);
+  }
+
+  /**
+   * Data (JSON) wajib yang belum tersedia atau tidak valid - game tidak bisa jalan tanpa ini
+   * Data tidak valid dihapus dari cache supaya Retry me-load ulang file-nya
+   */
+  getMissingData(): string[] {
+    if (!this.getManifest()) return [MANIFEST_KEY];
+    return REQUIRED_ASSETS.json.filter(key => {
+      const cache = this.scene.cache.json;
+      if (!cache.exists(key)) return true;
+
+      const validate = DATA_VALIDATORS[key];
+      if (!validate || validate(cache.get(key))) return false;
+      cache.remove(key);
+      return true;
+    });
+  }
+
+  /**
+   * Load pack mode (override base) lalu panggil onComplete
+   * @param overrides Key tambahan di luar manifest, mis. play_area dari gameplay config
+   */
+  loadModePack(mode: string, onComplete: () => void, overrides: AssetPack = {}): void {
+    const modePack = this.getManifest()?.modes?.[mode] || {};
+    if (modePack.json) {
+      console.warn(`Asset pack "${mode}": json is not supported in mode packs (data is read before the mode is known)`);
+    }
+
+    this.modePack = {
+      images: { ...modePack.images, ...overrides.images },
+      audio: { ...modePack.audio, ...overrides.audio }
+    };
+    this.queuePack(this.modePack, true);
+
+    this.scene.load.once('complete', onComplete);
+    this.scene.load.start();
+  }
+
+  /**
+   * Log semua asset yang tidak tersedia (sekali setelah pack mode selesai di-load)
+   * Key yang ada di manifest tapi tidak tersedia = gagal load, key wajib yang tidak ada di manifest = not_in_manifest
+   * (termasuk "panel" jika pack mode ini tidak punya panel dan tidak ada play_area override)
+   */
+  reportMissing(): MissingAsset[] {
+    const base = this.getManifest()?.base || {};
+    const missing: MissingAsset[] = [];
+
+    for (const type of Object.keys(PACK_FIELDS) as AssetType[]) {
+      const field = PACK_FIELDS[type];
+      const paths = { ...base[field], ...this.modePack[field] };
+      const keys = new Set([...Object.keys(paths), ...REQUIRED_ASSETS[type], ...REQUIRED_MODE_ASSETS[type]]);
+
+      for (const key of keys) {
+        if (this.isLoaded(type, key)) continue;
+        missing.push(paths[key]
+          ? { type, key, url: paths[key], reason: 'load_error' }
+          : { type, key, reason: 'not_in_manifest' });
+      }
+    }
+
+    if (missing.length > 0) {
+      const lines = missing.map(asset => asset.reason === 'load_error'
+        ? `  ${asset.type} "${asset.key}": failed to load ${asset.url}`
+        : `  ${asset.type} "${asset.key}": not in asset manifest`);
+      console.error(`Missing assets (${missing.length}):\n${lines.join('\n')}`);
+    }
+    return missing;
+  }
+
+  /**
+   * @param replace true = hapus asset lama dengan key yang sama (override dari pack mode)
+   */
+  private queuePack(pack: AssetPack, replace: boolean): void {
+    const load = this.scene.load;
+
+    for (const [key, path] of Object.entries(pack.images || {})) {
+      if (replace && this.scene.textures.exists(key)) this.scene.textures.remove(key);
+      load.image(key, path);
+    }
+    for (const [key, path] of Object.entries(pack.json || {})) {
+      if (replace) this.scene.cache.json.remove(key);
+      load.json(key, path);
+    }
+    for (const [key, path] of Object.entries(pack.audio || {})) {
+      if (replace) this.scene.cache.audio.remove(key);
+      load.audio(key, path);
+    }
+  }
+
+  private isLoaded(type: AssetType, key: string): boolean {
+    switch (type) {
+      case 'image': return this.scene.textures.exists(key);
+      case 'json': return this.scene.cache.json.exists(key);
+      case 'audio': return this.scene.cache.audio.exists(key);
+    }
+  }
+}
@@ -1,233 +1,44 @@
 import Phaser from 'phaser';
-import { Tetromino, GridTile, GameConfig, Direction } from '../types';
-import { GAME_CONSTANTS } from '../config/constants';
+import { Tetromino, GridTile, GameConfig, LockedPiece } from '../types';
+import { BoardModel, PlacementTarget } from '../core/BoardModel';
+import { LockedPieceRenderer, LockedRenderMode } from './LockedPieceRenderer';
 
 /**
- * GameBoard - Mengelola grid system, collision detection, dan line clearing
+ * GameBoard - Menghubungkan BoardModel (grid logic) dengan LockedPieceRenderer (visual)
+ * Grid logic (collision, locking, line detection) ada di BoardModel
  */
 export class GameBoard {
-  private scene: Phaser.Scene;
   private config: GameConfig;
-  private grid: GridTile[][] = [];
-  private lockedTiles: Phaser.GameObjects.Container;
+  private model: BoardModel;
+  private lockedPieceRenderer: LockedPieceRenderer;
 
   constructor(scene: Phaser.Scene, config: GameConfig) {
-    this.scene = scene;
     this.config = config;
-    this.lockedTiles = scene.add.container(0, 0);
-    this.initializeGrid();
-  }
-
-  /**
-   * Calculate max text width berdasarkan matrix shape (untuk auto-size)
-   */
-  private calculateMaxTextWidth(matrix: number[][]): number {
-    // Hitung maksimum jumlah tile dalam satu baris
-    const maxTilesInRow = Math.max(...matrix.map(row =>
-      row.reduce((sum, cell) => sum + cell, 0)
-    ));
-
-    // Max width = jumlah tile × ukuran tile
-    // Kurangi 15% untuk padding dari garis luar tile
-    const rawWidth = maxTilesInRow * this.config.tileSize;
-    return rawWidth * 0.85; // 85% dari width actual
-  }
-
-  /**
-   * Initialize grid dengan empty tiles
-   */
-  private initializeGrid(): void {
-    this.grid = [];
-    for (let row = 0; row < this.config.gridHeight; row++) {
-      this.grid[row] = [];
-      for (let col = 0; col < this.config.gridWidth; col++) {
-        this.grid[row][col] = { filled: false };
-      }
-    }
+    this.model = new BoardModel(config.gridWidth, config.gridHeight);
+    this.lockedPieceRenderer = new LockedPieceRenderer(scene, config);
   }
 
   /**
    * Check apakah tetromino bisa ditempatkan di posisi tertentu
    */
-  canPlace(tetromino: Tetromino): boolean {
-    const matrix = tetromino.matrix;
-
-    for (let row = 0; row < matrix.length; row++) {
-      for (let col = 0; col < matrix[row].length; col++) {
-        if (matrix[row][col] === 1) {
-          const gridX = tetromino.x + col;
-          const gridY = tetromino.y + row;
-
-          // Check bounds
-          if (gridX < 0 || gridX >= this.config.gridWidth || gridY >= this.config.gridHeight) {
-            return false;
-          }
-
-          // Check collision dengan locked tiles (abaikan jika masih di atas grid)
-          if (gridY >= 0 && this.grid[gridY][gridX].filled) {
-            return false;
-          }
-        }
-      }
-    }
-
-    return true;
+  canPlace(tetromino: PlacementTarget): boolean {
+    return this.model.canPlace(tetromino);
   }
 
   /**
-   * Lock tetromino ke grid (simpan di grid dan render permanent)
+   * Posisi landing tetromino (sama untuk hard drop dan prediction)
    */
-  lockTetromino(tetromino: Tetromino): void {
-    const matrix = tetromino.matrix;
-    const originalMatrix = tetromino.shape.matrix;
-    const outlineKey = `shape_${tetromino.shape.shape_name}_outline`;
-    const colorKey = `shape_${tetromino.shape.shape_name}_color`;
-
-    // Hitung center berdasarkan actual filled tiles untuk akurasi
-    const center = this.calculateTrueCenter(matrix, tetromino.x, tetromino.y);
-
-    // Ukuran original shape (sebelum rotation) untuk image display
-    const originalWidth = originalMatrix[0].length * this.config.tileSize;
-    const originalHeight = originalMatrix.length * this.config.tileSize;
-
-    // Create outline shape first
-    const image = this.scene.add.image(center.x, center.y, outlineKey);
-    image.setDisplaySize(originalWidth, originalHeight);
-    image.setAngle(tetromino.rotation);
-
-    // Enable smooth texture filtering untuk menghindari pixelation
-    if (image.texture) {
-      image.texture.setFilter(Phaser.Textures.FilterMode.LINEAR);
-    }
-
-    this.lockedTiles.add(image);
-
-    // Store original scale before animation
-    const itemScale = image.scale;
-    (image as any).originalScale = itemScale;
-
-    this.scene.tweens.add({
-      targets: image,
-      scale: { from: itemScale, to: itemScale + 0.025 },
-      duration: 150,
-      ease: 'Back.easeOut',
-      onComplete: () => {
-        image.setTexture(colorKey);
-        // Ensure smooth texture filtering setelah texture change
-        if (image.texture) {
-          image.texture.setFilter(Phaser.Textures.FilterMode.LINEAR);
-        }
-        this.scene.tweens.add({
-          targets: image,
-          scale: { from: itemScale + 0.025, to: itemScale },
-          duration: 150,
-          ease: 'Back.easeIn',
-          onComplete: () => {
-          }
-        });
-      }
-    });
-
-    // Create permanent text labels
-    // Hanya render sebanyak jumlah labels yang tersedia
-    const textRotation = this.getTextRotation(tetromino.rotation);
-
-    for (let i = 0; i < tetromino.labels.length; i++) {
-      // Cek jika text_position tersedia untuk index ini
-      if (i < tetromino.shape.text_position.length) {
-        const [offsetX, offsetY] = tetromino.shape.text_position[i];
-        const label = tetromino.labels[i];
-
-        // Rotate offset position sesuai shape rotation
-        const rotatedOffset = this.rotateOffset(offsetX, offsetY, tetromino.rotation);
-
-        // Hitung max text width untuk auto-size (gunakan matrix ASLI sebelum rotation)
-        const maxTextWidth = this.calculateMaxTextWidth(originalMatrix);
-
-        // Setup text config
-        const textConfig: Phaser.Types.GameObjects.Text.TextStyle = {
-          fontFamily: '"Nunito", sans-serif',
-          fontSize: Math.floor(GAME_CONSTANTS.TETROMINO_FONT_SIZE) + 'px',
-          color: '#FFFFFF',
-          align: 'center',
-          fontStyle: 'bold',
-          resolution: window.devicePixelRatio || 2
-        };
-
-        // Khusus shape O: gunakan word wrap jika text ada spasi
-        if (tetromino.shape.shape_name === 'o' && label.includes(' ')) {
-          textConfig.wordWrap = { width: maxTextWidth };
-        }
-
-        const text = this.scene.add.text(
-          Math.round(center.x + (rotatedOffset.x * GAME_CONSTANTS.SCALE_FACTOR)),
-          Math.round(center.y + (rotatedOffset.y * GAME_CONSTANTS.SCALE_FACTOR)),
-          label,
-          textConfig
-        );
-        text.setOrigin(0.5);
-        text.setAngle(textRotation);
-
-        // Auto-scale untuk semua shape jika text terlalu lebar
-        // (Kecuali shape O dengan word wrap, karena sudah di-handle oleh wordWrap)
-        if (!(tetromino.shape.shape_name === 'o' && label.includes(' '))) {
-          if (text.width > maxTextWidth) {
-            const scale = maxTextWidth / text.width;
-            text.setScale(scale);
-          }
-        }
-
-        this.lockedTiles.add(text);
-      }
-    }
-
-    // Mark grid cells as filled
-    for (let row = 0; row < matrix.length; row++) {
-      for (let col = 0; col < matrix[row].length; col++) {
-        if (matrix[row][col] === 1) {
-          const gridX = tetromino.x + col;
-          const gridY = tetromino.y + row;
-
-          if (gridY >= 0 && gridY < this.config.gridHeight && gridX >= 0 && gridX < this.config.gridWidth) {
-            this.grid[gridY][gridX] = {
-              filled: true,
-              shapeImage: image,
-              labelText: undefined,
-              shapeName: tetromino.shape.shape_name
-            };
-          }
-        }
-      }
-    }
+  findLandingPosition(tetromino: Tetromino): { x: number; y: number } {
+    return this.model.findLandingPosition(tetromino);
   }
 
   /**
-   * Rotate offset position berdasarkan rotation angle
+   * Lock tetromino ke grid (simpan di model dan render permanent)
    */
-  private rotateOffset(x: number, y: number, angle: number): { x: number; y: number } {
-    const rad = Phaser.Math.DegToRad(angle);
-    const cos = Math.cos(rad);
-    const sin = Math.sin(rad);
-
-    return {
-      x: x * cos - y * sin,
-      y: x * sin + y * cos
-    };
-  }
-
-  /**
-   * Get text rotation (sama seperti TetrominoRenderer)
-   * Rule: Text hanya rotate 0° atau 90° untuk readability
-   */
-  private getTextRotation(shapeRotation: number): number {
-    if (shapeRotation === 0 || shapeRotation === 360) {
-      return 0;
-    } else if (shapeRotation === 90 || shapeRotation === 270) {
-      return 90;
-    } else if (shapeRotation === 180) {
-      return 0; // 180° tetap 0° agar tidak terbalik
-    }
-    return shapeRotation;
+  lockTetromino(tetromino: Tetromino): LockedPiece {
+    const piece = this.model.lock(tetromino);
+    this.lockedPieceRenderer.render(tetromino, piece);
+    return piece;
   }
 
   /**
@@ -235,121 +46,34 @@ export class GameBoard {
    * @returns Jumlah lines yang di-clear
    */
   clearLines(): number {
-    let linesCleared = 0;
-    const linesToClear: number[] = [];
-
-    // Cari lines yang penuh
-    for (let row = 0; row < this.config.gridHeight; row++) {
-      let isFull = true;
-      for (let col = 0; col < this.config.gridWidth; col++) {
-        if (!this.grid[row][col].filled) {
-          isFull = false;
-          break;
-        }
-      }
-      if (isFull) {
-        linesToClear.push(row);
-      }
+    const rows = this.model.findCompletedRows();
+    if (rows.length === 0) {
+      return 0;
     }
 
-    // Clear lines
-    for (const row of linesToClear) {
-      this.clearLine(row);
-      linesCleared++;
-    }
+    const result = this.model.clearRows(rows);
 
-    // Move lines down
-    if (linesToClear.length > 0) {
-      this.moveDownAfterClear(linesToClear);
+    for (const id of result.removedPieceIds) {
+      this.lockedPieceRenderer.remove(id);
     }
 
-    return linesCleared;
-  }
-
-  /**
-   * Clear satu line
-   */
-  private clearLine(row: number): void {
-    // Track unique images yang perlu dihapus
-    const imagesToDestroy = new Set<Phaser.GameObjects.Image>();
-
-    for (let col = 0; col < this.config.gridWidth; col++) {
-      const tile = this.grid[row][col];
-      if (tile.shapeImage) {
-        imagesToDestroy.add(tile.shapeImage);
+    // Sync semua piece yang terpotong atau turun
+    const changedIds = new Set([...result.affectedPieceIds, ...result.movedPieceIds]);
+    for (const id of changedIds) {
+      const piece = this.model.getPiece(id);
+      if (piece) {
+        this.lockedPieceRenderer.sync(piece);
       }
-      this.grid[row][col] = { filled: false };
     }
 
-    // Destroy complete shape images yang termasuk di line ini
-    imagesToDestroy.forEach(img => {
-      // Find and destroy associated texts
-      const children = this.lockedTiles.getAll();
-      children.forEach(child => {
-        if (child instanceof Phaser.GameObjects.Text) {
-          // Check if text is near this image
-          const imgBounds = img.getBounds();
-          const textBounds = child.getBounds();
-          if (Phaser.Geom.Intersects.RectangleToRectangle(imgBounds, textBounds)) {
-            child.destroy();
-          }
-        }
-      });
-      img.destroy();
-    });
-  }
-
-  /**
-   * Move lines down setelah clear
-   */
-  private moveDownAfterClear(clearedRows: number[]): void {
-    // Untuk simplicity, kita rebuild locked shapes
-    // Ini bukan optimal tapi akan berfungsi dengan shape-based approach
-
-    // Sort dari bawah ke atas
-    clearedRows.sort((a, b) => b - a);
-
-    for (const clearedRow of clearedRows) {
-      // Shift semua row di atasnya ke bawah
-      for (let row = clearedRow; row > 0; row--) {
-        for (let col = 0; col < this.config.gridWidth; col++) {
-          this.grid[row][col] = this.grid[row - 1][col];
-        }
-      }
-
-      // Clear top row
-      for (let col = 0; col < this.config.gridWidth; col++) {
-        this.grid[0][col] = { filled: false };
-      }
-    }
-
-    // Move all remaining locked tiles down
-    const moveDistance = clearedRows.length * this.config.tileSize;
-    const children = this.lockedTiles.getAll();
-
-    children.forEach(child => {
-      if (child instanceof Phaser.GameObjects.Image || child instanceof Phaser.GameObjects.Text) {
-        // Only move if y position is above cleared area
-        const lowestClearedRow = Math.max(...clearedRows);
-        const lowestClearedY = this.config.boardY + lowestClearedRow * this.config.tileSize;
-
-        if (child.y < lowestClearedY) {
-          child.y += moveDistance;
-        }
-      }
-    });
+    return result.rows.length;
   }
 
   /**
    * Check apakah game over (ada tile filled di row 0)
    */
   isGameOver(): boolean {
-    for (let col = 0; col < this.config.gridWidth; col++) {
-      if (this.grid[0][col].filled) {
-        return true;
-      }
-    }
-    return false;
+    return this.model.isGameOver();
   }
 
   /**
@@ -357,56 +81,53 @@ export class GameBoard {
    */
   reset(): void {
     // Destroy semua locked tiles
-    this.lockedTiles.destroy();
-    this.lockedTiles = this.scene.add.container(0, 0);
+    this.lockedPieceRenderer.reset();
 
     // Reset grid
-    this.initializeGrid();
+    this.model.reset();
   }
 
   /**
-   * Calculate true center berdasarkan filled tiles
+   * Ganti ukuran grid (config.gridWidth / gridHeight sudah di-update scene) - board dikosongkan
    */
-  private calculateTrueCenter(matrix: number[][], gridX: number, gridY: number): { x: number; y: number } {
-    let minCol = matrix[0].length;
-    let maxCol = -1;
-    let minRow = matrix.length;
-    let maxRow = -1;
-
-    // Find bounding box dari filled tiles
-    for (let row = 0; row < matrix.length; row++) {
-      for (let col = 0; col < matrix[row].length; col++) {
-        if (matrix[row][col] === 1) {
-          minCol = Math.min(minCol, col);
-          maxCol = Math.max(maxCol, col);
-          minRow = Math.min(minRow, row);
-          maxRow = Math.max(maxRow, row);
-        }
-      }
-    }
+  resize(width: number, height: number): void {
+    this.lockedPieceRenderer.reset();
+    this.model.resize(width, height);
+  }
 
-    // Calculate center dari filled tiles
-    const centerCol = (minCol + maxCol) / 2;
-    const centerRow = (minRow + maxRow) / 2;
+  /**
+   * Set render mode locked pieces ('piece' = whole image, 'cells' = per-cell sprites)
+   */
+  setLockedRenderMode(mode: LockedRenderMode): void {
+    this.lockedPieceRenderer.setMode(mode);
+  }
 
-    return {
-      x: this.config.boardX + (gridX + centerCol + 0.5) * this.config.tileSize,
-      y: this.config.boardY + (gridY + centerRow + 0.5) * this.config.tileSize
-    };
+  /**
+   * Paksa semua locked pieces ke final state (untuk screenshot)
+   */
+  finalizeLockedPieces(): void {
+    this.lockedPieceRenderer.finalize();
   }
 
   /**
-   * Get grid state (untuk debugging)
+   * Get grid state (untuk debugging dan prediction)
    */
   getGrid(): GridTile[][] {
-    return this.grid;
+    return this.model.getGrid();
+  }
+
+  /**
+   * Get headless board model
+   */
+  getModel(): BoardModel {
+    return this.model;
   }
 
   /**
    * Get locked tiles container
    */
   getLockedTiles(): Phaser.GameObjects.Container {
-    return this.lockedTiles;
+    return this.lockedPieceRenderer.getLayer();
   }
 
   /**
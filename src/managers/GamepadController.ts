@@ -0,0 +1,162 @@
+import Phaser from 'phaser';
+import { KeyAction, PlayerAction } from '../types';
+import { GAME_CONSTANTS } from '../config/constants';
+import { AutoRepeat } from '../core/AutoRepeat';
+
+// Standard gamepad layout (https://w3c.github.io/gamepad/#remapping)
+const BUTTON_A = 0;
+const BUTTON_B = 1;
+const BUTTON_X = 2;
+const BUTTON_Y = 3;
+const BUTTON_LB = 4;
+const BUTTON_RB = 5;
+const BUTTON_START = 9;
+const DPAD_UP = 12;
+const DPAD_DOWN = 13;
+const DPAD_LEFT = 14;
+const DPAD_RIGHT = 15;
+
+// Button → aksi (d-pad left/right/down di-poll di update untuk auto-repeat & soft drop)
+const BUTTON_ACTIONS: Record<number, KeyAction> = {
+  [BUTTON_A]: 'rotate',
+  [BUTTON_B]: 'hardDrop',
+  [BUTTON_X]: 'skip',
+  [BUTTON_Y]: 'switch',
+  [BUTTON_LB]: 'hold',
+  [BUTTON_RB]: 'hold',
+  [DPAD_UP]: 'hardDrop'
+};
+
+/**
+ * GamepadController - Controller fisik lewat Phaser gamepad plugin (config input.gamepad = true)
+ *
+ * Mapping standard layout: d-pad/left stick = move & soft drop, A = rotate, B / d-pad up = hard drop,
+ * X = skip, Y = switch, LB/RB = hold, Start = pause/resume. Left/right memakai DAS/ARR yang sama dengan keyboard.
+ */
+export class GamepadController {
+  private scene: Phaser.Scene;
+  private onAction: (action: PlayerAction) => void;
+  private onPauseToggle: () => void;
+  private enabledActions: Set<KeyAction> = new Set();
+  private autoRepeat: AutoRepeat = new AutoRepeat(GAME_CONSTANTS.KEYBOARD_DAS, GAME_CONSTANTS.KEYBOARD_ARR, GAME_CONSTANTS.GRID_WIDTH);
+
+  // State dari poll sebelumnya (edge detection)
+  private heldDirection: 'moveLeft' | 'moveRight' | null = null;
+  private isSoftDropHeld: boolean = false;
+
+  constructor(scene: Phaser.Scene, onAction: (action: PlayerAction) => void, onPauseToggle: () => void) {
+    this.scene = scene;
+    this.onAction = onAction;
+    this.onPauseToggle = onPauseToggle;
+
+    const gamepad = this.scene.input.gamepad;
+    if (!gamepad) {
+      console.warn('Gamepad plugin not enabled, gamepad input disabled');
+      return;
+    }
+
+    gamepad.on('down', (_pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button) => {
+      this.handleButtonDown(button.index);
+    });
+    gamepad.on('connected', (pad: Phaser.Input.Gamepad.Gamepad) => {
+      console.log('Gamepad connected:', pad.id);
+    });
+    gamepad.on('disconnected', () => this.releaseAll());
+  }
+
+  /**
+   * Aksi yang aktif untuk mode ini (sama dengan keyboard)
+   */
+  setEnabledActions(actions: KeyAction[]): void {
+    this.enabledActions = new Set(actions);
+  }
+
+  setRepeat(das: number, arr: number): void {
+    this.autoRepeat.setRepeat(das, arr);
+  }
+
+  /**
+   * Lebar grid mode ini (batas auto-repeat per frame)
+   */
+  setGridWidth(width: number): void {
+    this.autoRepeat.setMaxRepeats(width);
+  }
+
+  /**
+   * Poll d-pad & left stick untuk move (DAS/ARR) dan soft drop (panggil dari scene update)
+   */
+  update(delta: number): void {
+    const pad = this.getActivePad();
+    if (!pad) return;
+
+    const deadzone = GAME_CONSTANTS.GAMEPAD_STICK_DEADZONE;
+    const stickX = pad.leftStick.x;
+    const stickY = pad.leftStick.y;
+
+    // Soft drop: d-pad down atau stick ke bawah
+    const isDownHeld = this.isButtonDown(pad, DPAD_DOWN) || stickY > deadzone;
+    if (isDownHeld !== this.isSoftDropHeld && this.enabledActions.has('softDrop')) {
+      this.isSoftDropHeld = isDownHeld;
+      if (isDownHeld) {
+        this.onAction('moveDown');
+        this.onAction('softDropStart');
+      } else {
+        this.onAction('softDropEnd');
+      }
+    }
+
+    // Left/right: d-pad atau stick horizontal
+    let direction: 'moveLeft' | 'moveRight' | null = null;
+    if (this.isButtonDown(pad, DPAD_LEFT) || stickX < -deadzone) {
+      direction = 'moveLeft';
+    } else if (this.isButtonDown(pad, DPAD_RIGHT) || stickX > deadzone) {
+      direction = 'moveRight';
+    }
+
+    if (direction !== this.heldDirection) {
+      this.heldDirection = direction;
+      this.autoRepeat.reset();
+      if (direction) this.onAction(direction);
+      return;
+    }
+    if (!direction) return;
+
+    const repeats = this.autoRepeat.update(delta);
+    for (let i = 0; i < repeats; i++) {
+      this.onAction(direction);
+    }
+  }
+
+  /**
+   * Reset state tombol yang ditahan
+   */
+  releaseAll(): void {
+    this.heldDirection = null;
+    this.autoRepeat.reset();
+    if (this.isSoftDropHeld) {
+      this.isSoftDropHeld = false;
+      this.onAction('softDropEnd');
+    }
+  }
+
+  private handleButtonDown(index: number): void {
+    if (index === BUTTON_START) {
+      this.onPauseToggle();
+      return;
+    }
+
+    const action = BUTTON_ACTIONS[index];
+    if (!action || !this.enabledActions.has(action)) return;
+    this.onAction(action as PlayerAction);
+  }
+
+  private getActivePad(): Phaser.Input.Gamepad.Gamepad | null {
+    const gamepad = this.scene.input.gamepad;
+    if (!gamepad || gamepad.total === 0) return null;
+    return gamepad.getAll().find(pad => pad.connected) || null;
+  }
+
+  private isButtonDown(pad: Phaser.Input.Gamepad.Gamepad, index: number): boolean {
+    return pad.buttons[index]?.pressed || false;
+  }
+}
@@ -0,0 +1,126 @@
+import Phaser from 'phaser';
+import { GAME_CONSTANTS } from '../config/constants';
+
+export interface GestureCallbacks {
+  onMove: (direction: 'moveLeft' | 'moveRight') => void;
+  onHardDrop: () => void;
+  onTap: (pointer: Phaser.Input.Pointer) => void;
+}
+
+/**
+ * GestureController - Swipe/drag gestures di play area
+ *
+ * - Drag horizontal: geser piece satu kolom setiap GESTURE_DRAG_STEP px
+ * - Flick ke bawah (cepat & cukup jauh): hard drop
+ * - Tap (gerakan kecil & singkat): onTap, scene yang menentukan rotate atau tap-to-place
+ *
+ * Threshold di constants sudah di-scale dengan SCALE_FACTOR.
+ */
+export class GestureController {
+  private scene: Phaser.Scene;
+  private bounds: Phaser.Geom.Rectangle;
+  private callbacks: GestureCallbacks;
+  private isEnabled: () => boolean;
+
+  // State gesture yang sedang berjalan (null = tidak ada pointer aktif di play area)
+  private gesture: {
+    pointerId: number;
+    startX: number;
+    startY: number;
+    startTime: number;
+    anchorX: number; // Posisi x saat move terakhir
+    hasMoved: boolean; // Sudah geser kolom → bukan tap / flick lagi
+  } | null = null;
+
+  constructor(
+    scene: Phaser.Scene,
+    bounds: Phaser.Geom.Rectangle,
+    callbacks: GestureCallbacks,
+    isEnabled: () => boolean
+  ) {
+    this.scene = scene;
+    this.bounds = bounds;
+    this.callbacks = callbacks;
+    this.isEnabled = isEnabled;
+
+    this.scene.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => this.handlePointerDown(pointer));
+    this.scene.input.on('pointermove', (pointer: Phaser.Input.Pointer) => this.handlePointerMove(pointer));
+    this.scene.input.on('pointerup', (pointer: Phaser.Input.Pointer) => this.handlePointerUp(pointer));
+    this.scene.input.on('pointerupoutside', (pointer: Phaser.Input.Pointer) => this.handlePointerUp(pointer));
+  }
+
+  /**
+   * Update area gesture (mis. setelah ukuran grid berubah)
+   */
+  setBounds(bounds: Phaser.Geom.Rectangle): void {
+    this.bounds = bounds;
+  }
+
+  /**
+   * Batalkan gesture yang sedang berjalan (mis. saat pause)
+   */
+  cancel(): void {
+    this.gesture = null;
+  }
+
+  private handlePointerDown(pointer: Phaser.Input.Pointer): void {
+    if (this.gesture || !this.isEnabled()) return;
+    if (!this.bounds.contains(pointer.worldX, pointer.worldY)) return;
+
+    this.gesture = {
+      pointerId: pointer.id,
+      startX: pointer.worldX,
+      startY: pointer.worldY,
+      startTime: pointer.downTime,
+      anchorX: pointer.worldX,
+      hasMoved: false
+    };
+  }
+
+  private handlePointerMove(pointer: Phaser.Input.Pointer): void {
+    if (!this.gesture || pointer.id !== this.gesture.pointerId) return;
+    if (!this.isEnabled()) {
+      this.cancel();
+      return;
+    }
+
+    // Drag lebih vertikal dari horizontal = calon flick, jangan geser kolom
+    const totalX = pointer.worldX - this.gesture.startX;
+    const totalY = pointer.worldY - this.gesture.startY;
+    if (!this.gesture.hasMoved && Math.abs(totalY) > Math.abs(totalX)) return;
+
+    const step = GAME_CONSTANTS.GESTURE_DRAG_STEP;
+    while (Math.abs(pointer.worldX - this.gesture.anchorX) >= step) {
+      const direction = pointer.worldX > this.gesture.anchorX ? 1 : -1;
+      this.gesture.anchorX += direction * step;
+      this.gesture.hasMoved = true;
+      this.callbacks.onMove(direction > 0 ? 'moveRight' : 'moveLeft');
+    }
+  }
+
+  private handlePointerUp(pointer: Phaser.Input.Pointer): void {
+    if (!this.gesture || pointer.id !== this.gesture.pointerId) return;
+
+    const gesture = this.gesture;
+    this.gesture = null;
+    if (!this.isEnabled() || gesture.hasMoved) return;
+
+    const deltaX = pointer.worldX - gesture.startX;
+    const deltaY = pointer.worldY - gesture.startY;
+    const duration = Math.max(pointer.upTime - gesture.startTime, 1);
+
+    // Flick ke bawah: cukup jauh, cukup cepat, dan lebih vertikal dari horizontal
+    if (deltaY >= GAME_CONSTANTS.GESTURE_FLICK_DISTANCE
+      && deltaY / duration >= GAME_CONSTANTS.GESTURE_FLICK_VELOCITY
+      && deltaY > Math.abs(deltaX)) {
+      this.callbacks.onHardDrop();
+      return;
+    }
+
+    // Tap: hampir tidak bergerak dan singkat
+    if (Math.hypot(deltaX, deltaY) <= GAME_CONSTANTS.GESTURE_TAP_DISTANCE
+      && duration <= GAME_CONSTANTS.GESTURE_TAP_MAX_MS) {
+      this.callbacks.onTap(pointer);
+    }
+  }
+}
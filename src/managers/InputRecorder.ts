@@ -0,0 +1,91 @@
+import { PlayerAction, RecordedInput, InputRecording, SessionSettings } from '../types';
+
+export const RECORDING_VERSION = 1;
+
+/**
+ * InputRecorder - Record setiap aksi player beserta game tick-nya
+ *
+ * Bersama seed dan session settings, recording ini cukup untuk me-replay session
+ * secara deterministic (lihat ReplayPlayer).
+ */
+export class InputRecorder {
+  private recording: InputRecording | null = null;
+  private isRecording: boolean = false;
+
+  /**
+   * Mulai recording baru (recording sebelumnya dibuang)
+   */
+  start(seed: number, tickMs: number, session: SessionSettings): void {
+    this.recording = {
+      version: RECORDING_VERSION,
+      seed,
+      tickMs,
+      session: {
+        ...session,
+        suggestedSkills: [...session.suggestedSkills],
+        noDuplicates: [...session.noDuplicates]
+      },
+      inputs: [],
+      endTick: 0
+    };
+    this.isRecording = true;
+  }
+
+  /**
+   * Record satu aksi di tick tertentu
+   */
+  record(tick: number, action: PlayerAction): void {
+    if (!this.isRecording || !this.recording) return;
+    this.recording.inputs.push({ tick, action });
+  }
+
+  /**
+   * Stop recording
+   * @returns Recording yang sudah selesai, atau null jika belum pernah start
+   */
+  stop(endTick: number): InputRecording | null {
+    if (!this.recording) return null;
+
+    if (this.isRecording) {
+      this.recording.endTick = endTick;
+      this.isRecording = false;
+    }
+    return this.recording;
+  }
+
+  /**
+   * Batalkan recording yang sedang berjalan (misal saat replay dimulai)
+   */
+  cancel(): void {
+    this.recording = null;
+    this.isRecording = false;
+  }
+
+  getRecording(): InputRecording | null {
+    return this.recording;
+  }
+
+  /**
+   * Validasi object recording dari luar (parent message / JSON)
+   */
+  static isRecording(value: unknown): value is InputRecording {
+    if (!value || typeof value !== 'object') return false;
+
+    const recording = value as Record<string, unknown>;
+    const session = recording.session as Record<string, unknown> | null | undefined;
+    return recording.version === RECORDING_VERSION
+      && typeof recording.seed === 'number'
+      && typeof recording.tickMs === 'number'
+      && !!session && typeof session === 'object'
+      && typeof session.gameplayType === 'string'
+      && typeof session.timer === 'number'
+      && Array.isArray(session.suggestedSkills)
+      && Array.isArray(session.noDuplicates)
+      && Array.isArray(recording.inputs)
+      && recording.inputs.every((input: unknown) => {
+        const recorded = input as Partial<RecordedInput> | null;
+        return !!recorded && typeof recorded === 'object'
+          && typeof recorded.tick === 'number' && typeof recorded.action === 'string';
+      });
+  }
+}
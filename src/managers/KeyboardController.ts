@@ -0,0 +1,243 @@
+import Phaser from 'phaser';
+import { KeyAction, KeyBindings, PlayerAction } from '../types';
+import { GAME_CONSTANTS, DEFAULT_KEY_BINDINGS } from '../config/constants';
+import { AutoRepeat } from '../core/AutoRepeat';
+
+const STORAGE_KEY = 'wsg-tetris-key-bindings';
+
+const KEY_ACTIONS: KeyAction[] = ['moveLeft', 'moveRight', 'softDrop', 'hardDrop', 'rotate', 'skip', 'switch', 'hold'];
+
+/**
+ * KeyboardController - Keyboard input dengan DAS/ARR auto-repeat untuk left/right
+ *
+ * Setiap key di-map ke PlayerAction dan dikirim lewat onAction (sama seperti button),
+ * jadi input keyboard ikut di-record untuk replay.
+ * Remap dari user disimpan di localStorage dan menimpa bindings dari INIT/default.
+ */
+export class KeyboardController {
+  private scene: Phaser.Scene;
+  private onAction: (action: PlayerAction) => void;
+  private bindings: KeyBindings = KeyboardController.cloneBindings(DEFAULT_KEY_BINDINGS);
+  private enabledActions: Set<KeyAction> = new Set(KEY_ACTIONS);
+  private autoRepeat: AutoRepeat = new AutoRepeat(GAME_CONSTANTS.KEYBOARD_DAS, GAME_CONSTANTS.KEYBOARD_ARR, GAME_CONSTANTS.GRID_WIDTH);
+
+  // Auto-repeat state: arah yang terakhir ditekan menang
+  private heldDirections: ('moveLeft' | 'moveRight')[] = [];
+  private isSoftDropHeld: boolean = false;
+
+  // Remap: aksi yang sedang menunggu key baru
+  private pendingRebind: { action: KeyAction; onDone: () => void } | null = null;
+
+  constructor(scene: Phaser.Scene, onAction: (action: PlayerAction) => void) {
+    this.scene = scene;
+    this.onAction = onAction;
+
+    this.scene.input.keyboard?.on('keydown', (event: KeyboardEvent) => this.handleKeyDown(event));
+    this.scene.input.keyboard?.on('keyup', (event: KeyboardEvent) => this.handleKeyUp(event));
+
+    // Lepas semua key saat window kehilangan focus (keyup tidak akan datang)
+    this.scene.game.events.on(Phaser.Core.Events.BLUR, () => this.releaseAll());
+  }
+
+  /**
+   * Set bindings dari config (INIT), lalu apply remap user yang tersimpan
+   */
+  setBindings(bindings?: Partial<KeyBindings>): void {
+    this.bindings = { ...KeyboardController.cloneBindings(DEFAULT_KEY_BINDINGS), ...bindings };
+    Object.assign(this.bindings, this.loadStoredBindings());
+  }
+
+  getBindings(): KeyBindings {
+    return KeyboardController.cloneBindings(this.bindings);
+  }
+
+  /**
+   * Aksi yang aktif untuk mode ini (rotate/skip/switch mengikuti special_tag)
+   */
+  setEnabledActions(actions: KeyAction[]): void {
+    this.enabledActions = new Set(actions);
+  }
+
+  getEnabledActions(): KeyAction[] {
+    return KEY_ACTIONS.filter(action => this.enabledActions.has(action));
+  }
+
+  setRepeat(das: number, arr: number): void {
+    this.autoRepeat.setRepeat(das, arr);
+  }
+
+  /**
+   * Lebar grid mode ini (batas auto-repeat per frame)
+   */
+  setGridWidth(width: number): void {
+    this.autoRepeat.setMaxRepeats(width);
+  }
+
+  /**
+   * Tunggu key berikutnya untuk di-bind ke aksi ini (Escape = batal)
+   */
+  startRebind(action: KeyAction, onDone: () => void): void {
+    this.pendingRebind = { action, onDone };
+  }
+
+  cancelRebind(): void {
+    this.pendingRebind = null;
+  }
+
+  isRebinding(): boolean {
+    return this.pendingRebind !== null;
+  }
+
+  /**
+   * Update DAS/ARR (panggil dari scene update)
+   */
+  update(delta: number): void {
+    const direction = this.heldDirections[this.heldDirections.length - 1];
+    if (!direction) return;
+
+    const repeats = this.autoRepeat.update(delta);
+    for (let i = 0; i < repeats; i++) {
+      this.onAction(direction);
+    }
+  }
+
+  /**
+   * Lepas semua key yang sedang ditahan
+   */
+  releaseAll(): void {
+    this.heldDirections = [];
+    this.autoRepeat.reset();
+    if (this.isSoftDropHeld) {
+      this.isSoftDropHeld = false;
+      this.onAction('softDropEnd');
+    }
+  }
+
+  /**
+   * Label pendek untuk KeyboardEvent.code (untuk info panel)
+   */
+  static formatKey(code: string): string {
+    const arrows: Record<string, string> = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+    if (arrows[code]) return arrows[code];
+    if (code.startsWith('Key')) return code.slice(3);
+    if (code.startsWith('Digit')) return code.slice(5);
+    return code;
+  }
+
+  private handleKeyDown(event: KeyboardEvent): void {
+    if (this.pendingRebind) {
+      event.preventDefault();
+      const { action, onDone } = this.pendingRebind;
+      this.pendingRebind = null;
+      if (event.code !== 'Escape') {
+        this.rebind(action, event.code);
+      }
+      onDone();
+      return;
+    }
+
+    // Auto-repeat dari OS diabaikan, repeat dihandle DAS/ARR sendiri
+    if (event.repeat) return;
+
+    const action = this.getActionForKey(event.code);
+    if (!action) return;
+    event.preventDefault(); // Jangan scroll parent page (arrow/space)
+
+    switch (action) {
+      case 'moveLeft':
+      case 'moveRight':
+        this.heldDirections = this.heldDirections.filter(direction => direction !== action);
+        this.heldDirections.push(action);
+        this.autoRepeat.reset();
+        this.onAction(action);
+        break;
+      case 'softDrop':
+        if (this.isSoftDropHeld) return;
+        this.isSoftDropHeld = true;
+        this.onAction('moveDown');
+        this.onAction('softDropStart');
+        break;
+      case 'hardDrop':
+        this.onAction('hardDrop');
+        break;
+      case 'rotate':
+        this.onAction('rotate');
+        break;
+      case 'skip':
+        this.onAction('skip');
+        break;
+      case 'switch':
+        this.onAction('switch');
+        break;
+      case 'hold':
+        this.onAction('hold');
+        break;
+    }
+  }
+
+  private handleKeyUp(event: KeyboardEvent): void {
+    const action = this.getActionForKey(event.code);
+
+    if (action === 'moveLeft' || action === 'moveRight') {
+      // Kembali ke arah lain jika masih ditahan (mulai DAS lagi)
+      this.heldDirections = this.heldDirections.filter(direction => direction !== action);
+      this.autoRepeat.reset();
+    } else if (action === 'softDrop' && this.isSoftDropHeld) {
+      this.isSoftDropHeld = false;
+      this.onAction('softDropEnd');
+    }
+  }
+
+  private getActionForKey(code: string): KeyAction | null {
+    return KEY_ACTIONS.find(action =>
+      this.enabledActions.has(action) && this.bindings[action].includes(code)
+    ) || null;
+  }
+
+  /**
+   * Bind key ke aksi (key dilepas dari aksi lain) dan simpan ke localStorage
+   */
+  private rebind(action: KeyAction, code: string): void {
+    for (const other of KEY_ACTIONS) {
+      this.bindings[other] = this.bindings[other].filter(existing => existing !== code);
+    }
+    this.bindings[action] = [code, ...this.bindings[action]].slice(0, 2);
+    this.releaseAll();
+    this.saveBindings();
+  }
+
+  private loadStoredBindings(): Partial<KeyBindings> {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      if (!stored) return {};
+
+      const parsed = JSON.parse(stored);
+      const bindings: Partial<KeyBindings> = {};
+      for (const action of KEY_ACTIONS) {
+        if (Array.isArray(parsed[action]) && parsed[action].every((code: unknown) => typeof code === 'string')) {
+          bindings[action] = parsed[action];
+        }
+      }
+      return bindings;
+    } catch (e) {
+      // localStorage bisa diblok di iframe (sandbox / third-party cookies)
+      return {};
+    }
+  }
+
+  private saveBindings(): void {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.bindings));
+    } catch (e) {
+      console.warn('Could not save key bindings:', e);
+    }
+  }
+
+  private static cloneBindings(bindings: KeyBindings): KeyBindings {
+    const clone = {} as KeyBindings;
+    for (const action of KEY_ACTIONS) {
+      clone[action] = [...bindings[action]];
+    }
+    return clone;
+  }
+}
@@ -0,0 +1,101 @@
+import { GravityRules } from '../types';
+import { GAME_CONSTANTS } from '../config/constants';
+
+/**
+ * Default rules jika mode tidak punya "gravity" di gameplay_config.json (satu level, drop interval tetap)
+ */
+export const DEFAULT_GRAVITY_RULES: GravityRules = {
+  level_by: 'time',
+  level_step: 30,
+  drop_intervals: [GAME_CONSTANTS.DROP_INTERVAL]
+};
+
+/**
+ * LevelManager - Level dan drop interval (gravity) yang naik selama session
+ *
+ * Progress dihitung dari waktu game (fixed tick), jumlah piece yang di-lock,
+ * atau jumlah rows yang di-clear, sesuai "level_by" di gravity rules mode.
+ * Level 1 = drop_intervals[0], level N = drop_intervals[N - 1] (dibatasi level terakhir).
+ */
+export class LevelManager {
+  private rules: GravityRules = { ...DEFAULT_GRAVITY_RULES };
+  private elapsedMs: number = 0;
+  private pieces: number = 0;
+  private rows: number = 0;
+  private level: number = 1;
+
+  /**
+   * Set rules dari gameplay config (field yang kosong memakai default)
+   */
+  setRules(rules?: Partial<GravityRules>): void {
+    this.rules = { ...DEFAULT_GRAVITY_RULES, ...rules };
+    if (this.rules.drop_intervals.length === 0) {
+      this.rules.drop_intervals = [...DEFAULT_GRAVITY_RULES.drop_intervals];
+    }
+  }
+
+  getRules(): GravityRules {
+    return { ...this.rules, drop_intervals: [...this.rules.drop_intervals] };
+  }
+
+  reset(): void {
+    this.elapsedMs = 0;
+    this.pieces = 0;
+    this.rows = 0;
+    this.level = 1;
+  }
+
+  /**
+   * Satu game tick
+   * @returns true jika level berubah
+   */
+  onTick(tickMs: number): boolean {
+    this.elapsedMs += tickMs;
+    return this.rules.level_by === 'time' && this.updateLevel();
+  }
+
+  /**
+   * @returns true jika level berubah
+   */
+  onPiecePlaced(): boolean {
+    this.pieces++;
+    return this.rules.level_by === 'pieces' && this.updateLevel();
+  }
+
+  /**
+   * @returns true jika level berubah
+   */
+  onLinesCleared(rowCount: number): boolean {
+    if (rowCount <= 0) return false;
+    this.rows += rowCount;
+    return this.rules.level_by === 'rows' && this.updateLevel();
+  }
+
+  getLevel(): number {
+    return this.level;
+  }
+
+  getMaxLevel(): number {
+    return this.rules.drop_intervals.length;
+  }
+
+  /**
+   * Drop interval (ms) untuk level sekarang
+   */
+  getDropInterval(): number {
+    return this.rules.drop_intervals[this.level - 1];
+  }
+
+  private updateLevel(): boolean {
+    const progress = this.rules.level_by === 'time'
+      ? this.elapsedMs / 1000
+      : this.rules.level_by === 'pieces' ? this.pieces : this.rows;
+
+    const step = Math.max(this.rules.level_step, 1);
+    const level = Math.min(Math.floor(progress / step) + 1, this.getMaxLevel());
+    if (level === this.level) return false;
+
+    this.level = level;
+    return true;
+  }
+}
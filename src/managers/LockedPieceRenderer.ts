@@ -0,0 +1,645 @@
+import Phaser from 'phaser';
+import { Tetromino, GameConfig, LockedPiece, PieceCell } from '../types';
+import { GAME_CONSTANTS } from '../config/constants';
+import { getShapeTextureKey } from './ShapeTextures';
+
+/**
+ * Cara locked piece di-render
+ * - piece: 1 complete image per piece (default)
+ * - cells: 1 sprite per cell, di-crop dari shape art
+ */
+export type LockedRenderMode = 'piece' | 'cells';
+
+/**
+ * Label milik locked piece, di-anchor ke salah satu cell piece tersebut
+ */
+interface LockedLabelView {
+  text: Phaser.GameObjects.Text;
+  anchorCol: number; // Cell (di rotated matrix) tempat label menempel
+  anchorRow: number;
+  offsetX: number; // Offset dari center anchor cell (px)
+  offsetY: number;
+}
+
+/**
+ * Tile dari shape art yang dipakai untuk satu cell
+ */
+interface CellTile {
+  col: number; // Cell di matrix ASLI
+  row: number;
+  steps: number; // Rotation dalam kelipatan 90°
+}
+
+/**
+ * Phaser objects milik satu locked piece
+ */
+interface LockedPieceView {
+  container: Phaser.GameObjects.Container; // Di center piece saat di-lock, target lock animation
+  image: Phaser.GameObjects.Image | null; // Whole-piece image, null jika render per cell
+  cells: Map<string, { sprite: Phaser.GameObjects.Image; tileKey: string }>; // Key "col,row" (rotated matrix)
+  labels: LockedLabelView[];
+  center: { x: number; y: number };
+  shapeName: string;
+  originalMatrix: number[][]; // Matrix ASLI (sebelum rotation)
+  cellCount: number; // Jumlah cell saat di-lock
+  textureType: 'outline' | 'color';
+}
+
+// Neighbour bits untuk edge/corner matching (arah layar, y ke bawah)
+const NORTH = 1;
+const EAST = 2;
+const SOUTH = 4;
+const WEST = 8;
+
+/**
+ * LockedPieceRenderer - Me-render locked pieces (whole image atau per cell) dan labels-nya
+ *
+ * Per-cell sprite memakai crop dari shape art. Tile dipilih berdasarkan neighbour cell
+ * yang masih tersambung, jadi edge/corner tetap benar setelah piece terpotong line clear.
+ */
+export class LockedPieceRenderer {
+  private scene: Phaser.Scene;
+  private config: GameConfig;
+  private layer: Phaser.GameObjects.Container;
+  private views: Map<number, LockedPieceView> = new Map();
+  private mode: LockedRenderMode = 'piece';
+
+  constructor(scene: Phaser.Scene, config: GameConfig) {
+    this.scene = scene;
+    this.config = config;
+    this.layer = scene.add.container(0, 0);
+  }
+
+  /**
+   * Set render mode untuk piece yang di-lock setelah ini
+   */
+  setMode(mode: LockedRenderMode): void {
+    this.mode = mode;
+  }
+
+  getMode(): LockedRenderMode {
+    return this.mode;
+  }
+
+  /**
+   * Render piece yang baru di-lock (dengan lock animation outline → color)
+   */
+  render(tetromino: Tetromino, piece: LockedPiece): void {
+    const originalMatrix = tetromino.shape.matrix;
+
+    // Hitung center berdasarkan actual filled tiles untuk akurasi
+    const center = this.calculateTrueCenter(tetromino.matrix, tetromino.x, tetromino.y);
+    const container = this.scene.add.container(center.x, center.y);
+    this.layer.add(container);
+
+    const view: LockedPieceView = {
+      container,
+      image: null,
+      cells: new Map(),
+      labels: [],
+      center,
+      shapeName: tetromino.shape.shape_name,
+      originalMatrix,
+      cellCount: piece.cells.length,
+      textureType: 'outline'
+    };
+    this.views.set(piece.id, view);
+
+    if (this.mode === 'piece') {
+      // Ukuran original shape (sebelum rotation) untuk image display
+      const image = this.scene.add.image(0, 0, this.getTextureKey(view));
+      image.setDisplaySize(originalMatrix[0].length * this.config.tileSize, originalMatrix.length * this.config.tileSize);
+      image.setAngle(tetromino.rotation);
+      this.applySmoothFilter(image);
+      container.add(image);
+      view.image = image;
+    } else {
+      this.syncCells(piece, view);
+    }
+
+    this.playLockAnimation(view);
+
+    // Create permanent text labels
+    // Hanya render sebanyak jumlah labels yang tersedia
+    const textRotation = this.getTextRotation(tetromino.rotation);
+
+    for (let i = 0; i < tetromino.labels.length; i++) {
+      // Cek jika text_position tersedia untuk index ini
+      if (i < tetromino.shape.text_position.length) {
+        const [offsetX, offsetY] = tetromino.shape.text_position[i];
+        const label = tetromino.labels[i];
+
+        // Rotate offset position sesuai shape rotation
+        const rotatedOffset = this.rotateOffset(offsetX, offsetY, tetromino.rotation);
+
+        // Hitung max text width untuk auto-size (gunakan matrix ASLI sebelum rotation)
+        const maxTextWidth = this.calculateMaxTextWidth(originalMatrix);
+
+        // Setup text config
+        const textConfig: Phaser.Types.GameObjects.Text.TextStyle = {
+          fontFamily: '"Nunito", sans-serif',
+          fontSize: Math.floor(GAME_CONSTANTS.TETROMINO_FONT_SIZE) + 'px',
+          color: '#FFFFFF',
+          align: 'center',
+          fontStyle: 'bold',
+          resolution: window.devicePixelRatio || 2
+        };
+
+        // Khusus shape O: gunakan word wrap jika text ada spasi
+        if (tetromino.shape.shape_name === 'o' && label.includes(' ')) {
+          textConfig.wordWrap = { width: maxTextWidth };
+        }
+
+        const text = this.scene.add.text(
+          Math.round(center.x + (rotatedOffset.x * GAME_CONSTANTS.SCALE_FACTOR)),
+          Math.round(center.y + (rotatedOffset.y * GAME_CONSTANTS.SCALE_FACTOR)),
+          label,
+          textConfig
+        );
+        text.setOrigin(0.5);
+        text.setAngle(textRotation);
+
+        // Auto-scale untuk semua shape jika text terlalu lebar
+        // (Kecuali shape O dengan word wrap, karena sudah di-handle oleh wordWrap)
+        if (!(tetromino.shape.shape_name === 'o' && label.includes(' '))) {
+          if (text.width > maxTextWidth) {
+            const scale = maxTextWidth / text.width;
+            text.setScale(scale);
+          }
+        }
+
+        this.layer.add(text);
+        view.labels.push(this.anchorLabel(text, piece));
+      }
+    }
+  }
+
+  /**
+   * Lock animation: pulse container, ganti texture ke color di puncak pulse
+   */
+  private playLockAnimation(view: LockedPieceView): void {
+    // Samakan besar pulse dengan animasi lama (scale image + 0.025)
+    const sample = view.image || view.cells.values().next().value?.sprite;
+    const baseScale = sample ? sample.scaleX : 1;
+    const pulseScale = 1 + 0.025 / baseScale;
+
+    this.scene.tweens.add({
+      targets: view.container,
+      scale: { from: 1, to: pulseScale },
+      duration: 150,
+      ease: 'Back.easeOut',
+      onComplete: () => {
+        this.setTextureType(view, 'color');
+        this.scene.tweens.add({
+          targets: view.container,
+          scale: { from: pulseScale, to: 1 },
+          duration: 150,
+          ease: 'Back.easeIn'
+        });
+      }
+    });
+  }
+
+  /**
+   * Sync Phaser objects satu piece dengan state di model (setelah line clear)
+   * - Piece utuh di mode "piece": whole image digeser sesuai jumlah row yang turun
+   * - Piece terpotong: whole image diganti per-cell sprites
+   */
+  sync(piece: LockedPiece): void {
+    const view = this.views.get(piece.id);
+    if (!view) return;
+
+    if (view.image && piece.cells.length < view.cellCount) {
+      view.image.destroy();
+      view.image = null;
+    }
+
+    if (view.image) {
+      // Piece utuh selalu turun seragam, cukup pakai cell pertama
+      const cell = piece.cells[0];
+      const droppedRows = cell.y - (piece.y + cell.row);
+      view.image.y = droppedRows * this.config.tileSize;
+    } else {
+      this.syncCells(piece, view);
+    }
+
+    this.syncLabels(piece, view);
+  }
+
+  /**
+   * Buat / update / destroy per-cell sprites sesuai cell piece di model
+   */
+  private syncCells(piece: LockedPiece, view: LockedPieceView): void {
+    const aliveKeys = new Set<string>();
+
+    for (const cell of piece.cells) {
+      const key = `${cell.col},${cell.row}`;
+      aliveKeys.add(key);
+
+      const ownTile = this.toOriginalCell(cell.col, cell.row, piece.matrix, piece.rotation);
+      const tile = this.selectTile(view.originalMatrix, this.getNeighbourMask(piece, cell), {
+        ...ownTile,
+        steps: this.getRotationSteps(piece.rotation)
+      });
+      const tileKey = `${tile.col},${tile.row},${tile.steps}`;
+
+      let entry = view.cells.get(key);
+      if (entry && entry.tileKey !== tileKey) {
+        entry.sprite.destroy();
+        entry = undefined;
+      }
+      if (!entry) {
+        entry = { sprite: this.createCellSprite(view, tile), tileKey };
+        view.cells.set(key, entry);
+      }
+
+      this.positionCellSprite(entry.sprite, view, tile, cell);
+    }
+
+    view.cells.forEach((entry, key) => {
+      if (!aliveKeys.has(key)) {
+        entry.sprite.destroy();
+        view.cells.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Crop shape art ke satu tile
+   * Crop dilakukan di frame space (sebelum rotation), rotation di-handle oleh angle sprite
+   */
+  private createCellSprite(view: LockedPieceView, tile: CellTile): Phaser.GameObjects.Image {
+    const cols = view.originalMatrix[0].length;
+    const rows = view.originalMatrix.length;
+
+    const sprite = this.scene.add.image(0, 0, this.getTextureKey(view));
+    sprite.setDisplaySize(cols * this.config.tileSize, rows * this.config.tileSize);
+    sprite.setAngle(tile.steps * 90);
+
+    const frameTileWidth = sprite.frame.width / cols;
+    const frameTileHeight = sprite.frame.height / rows;
+    sprite.setCrop(tile.col * frameTileWidth, tile.row * frameTileHeight, frameTileWidth, frameTileHeight);
+
+    this.applySmoothFilter(sprite);
+    view.container.add(sprite);
+    return sprite;
+  }
+
+  /**
+   * Posisikan sprite (relatif ke container) agar tile yang di-crop jatuh tepat di cell board
+   */
+  private positionCellSprite(sprite: Phaser.GameObjects.Image, view: LockedPieceView, tile: CellTile, cell: PieceCell): void {
+    const cols = view.originalMatrix[0].length;
+    const rows = view.originalMatrix.length;
+    const cellCenter = this.getCellCenter(cell.x, cell.y);
+
+    // Offset tile dari center image sebelum rotation, lalu rotate sesuai angle sprite
+    const offsetX = (tile.col + 0.5 - cols / 2) * this.config.tileSize;
+    const offsetY = (tile.row + 0.5 - rows / 2) * this.config.tileSize;
+    const rotated = this.rotateOffset(offsetX, offsetY, tile.steps * 90);
+
+    sprite.setPosition(
+      cellCenter.x - view.center.x - rotated.x,
+      cellCenter.y - view.center.y - rotated.y
+    );
+  }
+
+  /**
+   * Neighbour mask cell berdasarkan cell lain milik piece yang sama yang bersebelahan di board
+   */
+  private getNeighbourMask(piece: LockedPiece, cell: PieceCell): number {
+    let mask = 0;
+    for (const other of piece.cells) {
+      if (other.x === cell.x && other.y === cell.y - 1) mask |= NORTH;
+      if (other.x === cell.x + 1 && other.y === cell.y) mask |= EAST;
+      if (other.x === cell.x && other.y === cell.y + 1) mask |= SOUTH;
+      if (other.x === cell.x - 1 && other.y === cell.y) mask |= WEST;
+    }
+    return mask;
+  }
+
+  /**
+   * Neighbour mask cell di matrix asli
+   */
+  private getMatrixMask(matrix: number[][], col: number, row: number): number {
+    const filled = (c: number, r: number) => matrix[r] !== undefined && matrix[r][c] === 1;
+    let mask = 0;
+    if (filled(col, row - 1)) mask |= NORTH;
+    if (filled(col + 1, row)) mask |= EAST;
+    if (filled(col, row + 1)) mask |= SOUTH;
+    if (filled(col - 1, row)) mask |= WEST;
+    return mask;
+  }
+
+  /**
+   * Rotate neighbour mask 90° clockwise sebanyak steps (N → E → S → W)
+   */
+  private rotateMask(mask: number, steps: number): number {
+    let rotated = mask;
+    for (let i = 0; i < steps; i++) {
+      rotated = ((rotated << 1) | (rotated >> 3)) & 0b1111;
+    }
+    return rotated;
+  }
+
+  /**
+   * Pilih tile dari shape art yang edge/corner-nya paling cocok dengan neighbour mask
+   * Urutan prioritas:
+   * 1. Tidak ada sisi "terpotong" (tile tersambung ke arah yang tidak punya neighbour)
+   * 2. Paling sedikit sisi bulat di arah yang punya neighbour
+   * 3. Tile milik cell itu sendiri, lalu rotation yang sama dengan piece
+   */
+  private selectTile(matrix: number[][], targetMask: number, preferred: CellTile): CellTile {
+    let best = preferred;
+    let bestScore = Infinity;
+
+    for (let steps = 0; steps < 4; steps++) {
+      for (let row = 0; row < matrix.length; row++) {
+        for (let col = 0; col < matrix[row].length; col++) {
+          if (matrix[row][col] !== 1) continue;
+
+          const mask = this.rotateMask(this.getMatrixMask(matrix, col, row), steps);
+          const cutEdges = this.countBits(mask & ~targetMask);
+          const missingJoins = this.countBits(targetMask & ~mask);
+          const isOwnTile = col === preferred.col && row === preferred.row && steps === preferred.steps;
+          const score = cutEdges * 100 + missingJoins * 10 + (isOwnTile ? 0 : 2) + (steps === preferred.steps ? 0 : 1);
+
+          if (score < bestScore) {
+            bestScore = score;
+            best = { col, row, steps };
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private countBits(value: number): number {
+    let count = 0;
+    for (let bits = value; bits > 0; bits >>= 1) {
+      count += bits & 1;
+    }
+    return count;
+  }
+
+  /**
+   * Map cell di rotated matrix ke cell di matrix asli (inverse dari ShapeManager.rotateMatrix)
+   */
+  private toOriginalCell(col: number, row: number, rotatedMatrix: number[][], rotation: number): { col: number; row: number } {
+    let currentCol = col;
+    let currentRow = row;
+    let cols = rotatedMatrix[0].length;
+    let rows = rotatedMatrix.length;
+
+    for (let i = 0; i < this.getRotationSteps(rotation); i++) {
+      // rotated[c][rows - 1 - r] = matrix[r][c]
+      const previousRow = cols - 1 - currentCol;
+      const previousCol = currentRow;
+      currentRow = previousRow;
+      currentCol = previousCol;
+      [cols, rows] = [rows, cols];
+    }
+
+    return { col: currentCol, row: currentRow };
+  }
+
+  private getRotationSteps(rotation: number): number {
+    return (((rotation % 360) + 360) % 360) / 90;
+  }
+
+  /**
+   * Anchor label ke cell piece yang paling dekat dengan posisi text
+   * Label ikut cell tersebut saat line clear, jadi tetap menempel ke piece pemiliknya
+   */
+  private anchorLabel(text: Phaser.GameObjects.Text, piece: LockedPiece): LockedLabelView {
+    let nearest: PieceCell | undefined;
+    let nearestDistance = Infinity;
+
+    for (const cell of piece.cells) {
+      const cellCenter = this.getCellCenter(cell.x, cell.y);
+      const distance = Phaser.Math.Distance.Between(text.x, text.y, cellCenter.x, cellCenter.y);
+      if (distance < nearestDistance) {
+        nearest = cell;
+        nearestDistance = distance;
+      }
+    }
+
+    // Piece di luar grid (tidak ada cell) tetap simpan posisi text apa adanya
+    if (!nearest) {
+      return { text, anchorCol: -1, anchorRow: -1, offsetX: 0, offsetY: 0 };
+    }
+
+    const anchorCenter = this.getCellCenter(nearest.x, nearest.y);
+    return {
+      text,
+      anchorCol: nearest.col,
+      anchorRow: nearest.row,
+      offsetX: text.x - anchorCenter.x,
+      offsetY: text.y - anchorCenter.y
+    };
+  }
+
+  /**
+   * Posisikan labels mengikuti anchor cell-nya
+   * Jika anchor cell ikut ter-clear, label pindah ke cell terdekat yang masih ada
+   */
+  private syncLabels(piece: LockedPiece, view: LockedPieceView): void {
+    for (const label of view.labels) {
+      let anchor = piece.cells.find(cell => cell.col === label.anchorCol && cell.row === label.anchorRow);
+
+      if (!anchor) {
+        anchor = this.findNearestCell(piece, label.anchorCol, label.anchorRow);
+        if (!anchor) continue;
+
+        label.anchorCol = anchor.col;
+        label.anchorRow = anchor.row;
+        label.offsetX = 0;
+        label.offsetY = 0;
+
+        // Sisa piece bisa cuma 1 tile, kecilkan label agar muat
+        const maxTextWidth = this.config.tileSize * 0.85;
+        if (label.text.width * label.text.scaleX > maxTextWidth) {
+          label.text.setScale(maxTextWidth / label.text.width);
+        }
+      }
+
+      const anchorCenter = this.getCellCenter(anchor.x, anchor.y);
+      label.text.setPosition(
+        Math.round(anchorCenter.x + label.offsetX),
+        Math.round(anchorCenter.y + label.offsetY)
+      );
+    }
+  }
+
+  /**
+   * Cari cell piece yang paling dekat dengan posisi (col, row) di matrix
+   */
+  private findNearestCell(piece: LockedPiece, col: number, row: number): PieceCell | undefined {
+    let nearest: PieceCell | undefined;
+    let nearestDistance = Infinity;
+
+    for (const cell of piece.cells) {
+      const distance = Math.abs(cell.col - col) + Math.abs(cell.row - row);
+      if (distance < nearestDistance) {
+        nearest = cell;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Destroy Phaser objects milik satu piece
+   */
+  remove(pieceId: number): void {
+    const view = this.views.get(pieceId);
+    if (!view) return;
+
+    this.scene.tweens.killTweensOf(view.container);
+    view.container.destroy();
+    view.labels.forEach(label => label.text.destroy());
+    this.views.delete(pieceId);
+  }
+
+  /**
+   * Paksa semua piece ke final state (color texture, tanpa animasi)
+   * Dipakai sebelum screenshot agar hasil capture akurat
+   */
+  finalize(): void {
+    this.views.forEach(view => {
+      this.scene.tweens.killTweensOf(view.container);
+      view.container.setScale(1);
+      this.setTextureType(view, 'color');
+    });
+  }
+
+  /**
+   * Destroy semua locked pieces
+   */
+  reset(): void {
+    this.layer.destroy();
+    this.layer = this.scene.add.container(0, 0);
+    this.views.clear();
+  }
+
+  /**
+   * Get layer yang berisi semua locked pieces dan labels
+   */
+  getLayer(): Phaser.GameObjects.Container {
+    return this.layer;
+  }
+
+  private setTextureType(view: LockedPieceView, textureType: 'outline' | 'color'): void {
+    view.textureType = textureType;
+    const key = this.getTextureKey(view);
+
+    if (view.image) {
+      view.image.setTexture(key);
+      this.applySmoothFilter(view.image);
+    }
+    view.cells.forEach(entry => {
+      entry.sprite.setTexture(key);
+      this.applySmoothFilter(entry.sprite);
+    });
+  }
+
+  private getTextureKey(view: LockedPieceView): string {
+    return getShapeTextureKey(view.shapeName, view.textureType);
+  }
+
+  /**
+   * Enable smooth texture filtering untuk menghindari pixelation
+   */
+  private applySmoothFilter(image: Phaser.GameObjects.Image): void {
+    if (image.texture) {
+      image.texture.setFilter(Phaser.Textures.FilterMode.LINEAR);
+    }
+  }
+
+  /**
+   * Center pixel dari grid cell
+   */
+  private getCellCenter(gridX: number, gridY: number): { x: number; y: number } {
+    return {
+      x: this.config.boardX + (gridX + 0.5) * this.config.tileSize,
+      y: this.config.boardY + (gridY + 0.5) * this.config.tileSize
+    };
+  }
+
+  /**
+   * Calculate max text width berdasarkan matrix shape (untuk auto-size)
+   */
+  private calculateMaxTextWidth(matrix: number[][]): number {
+    // Hitung maksimum jumlah tile dalam satu baris
+    const maxTilesInRow = Math.max(...matrix.map(row =>
+      row.reduce((sum, cell) => sum + cell, 0)
+    ));
+
+    // Max width = jumlah tile × ukuran tile
+    // Kurangi 15% untuk padding dari garis luar tile
+    const rawWidth = maxTilesInRow * this.config.tileSize;
+    return rawWidth * 0.85; // 85% dari width actual
+  }
+
+  /**
+   * Rotate offset position berdasarkan rotation angle
+   */
+  private rotateOffset(x: number, y: number, angle: number): { x: number; y: number } {
+    const rad = Phaser.Math.DegToRad(angle);
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+
+    return {
+      x: x * cos - y * sin,
+      y: x * sin + y * cos
+    };
+  }
+
+  /**
+   * Get text rotation (sama seperti TetrominoRenderer)
+   * Rule: Text hanya rotate 0° atau 90° untuk readability
+   */
+  private getTextRotation(shapeRotation: number): number {
+    if (shapeRotation === 0 || shapeRotation === 360) {
+      return 0;
+    } else if (shapeRotation === 90 || shapeRotation === 270) {
+      return 90;
+    } else if (shapeRotation === 180) {
+      return 0; // 180° tetap 0° agar tidak terbalik
+    }
+    return shapeRotation;
+  }
+
+  /**
+   * Calculate true center berdasarkan filled tiles
+   */
+  private calculateTrueCenter(matrix: number[][], gridX: number, gridY: number): { x: number; y: number } {
+    let minCol = matrix[0].length;
+    let maxCol = -1;
+    let minRow = matrix.length;
+    let maxRow = -1;
+
+    // Find bounding box dari filled tiles
+    for (let row = 0; row < matrix.length; row++) {
+      for (let col = 0; col < matrix[row].length; col++) {
+        if (matrix[row][col] === 1) {
+          minCol = Math.min(minCol, col);
+          maxCol = Math.max(maxCol, col);
+          minRow = Math.min(minRow, row);
+          maxRow = Math.max(maxRow, row);
+        }
+      }
+    }
+
+    // Calculate center dari filled tiles
+    const centerCol = (minCol + maxCol) / 2;
+    const centerRow = (minRow + maxRow) / 2;
+
+    return {
+      x: this.config.boardX + (gridX + centerCol + 0.5) * this.config.tileSize,
+      y: this.config.boardY + (gridY + centerRow + 0.5) * this.config.tileSize
+    };
+  }
+}
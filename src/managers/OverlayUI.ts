@@ -0,0 +1,100 @@
+import Phaser from 'phaser';
+import { GAME_CONSTANTS } from '../config/constants';
+
+/**
+ * Ukuran panel overlay (ResultsScene, PauseScene), di-scale sesuai SCALE_FACTOR
+ */
+export interface OverlayLayout {
+  width: number;
+  padding: number;
+  rowHeight: number;
+  buttonHeight: number;
+}
+
+export function getOverlayLayout(): OverlayLayout {
+  const scale = GAME_CONSTANTS.SCALE_FACTOR;
+  return {
+    width: GAME_CONSTANTS.PLAY_AREA_WIDTH * 0.9,
+    padding: Math.floor(16 * scale),
+    rowHeight: Math.floor(30 * scale),
+    buttonHeight: Math.floor(44 * scale)
+  };
+}
+
+/**
+ * Layer gelap seukuran canvas, sekaligus blok tap ke scene di belakang
+ */
+export function createOverlayBackdrop(scene: Phaser.Scene, alpha: number): Phaser.GameObjects.Rectangle {
+  return scene.add.rectangle(
+    GAME_CONSTANTS.CANVAS_WIDTH / 2,
+    GAME_CONSTANTS.CANVAS_HEIGHT / 2,
+    GAME_CONSTANTS.CANVAS_WIDTH,
+    GAME_CONSTANTS.CANVAS_HEIGHT,
+    0x000000,
+    alpha
+  ).setInteractive();
+}
+
+/**
+ * Panel di tengah layar: objects di-layout dari y = 0 (atas panel), tinggi mengikuti isi
+ */
+export function createOverlayPanel(
+  scene: Phaser.Scene,
+  objects: Phaser.GameObjects.GameObject[],
+  height: number
+): Phaser.GameObjects.Container {
+  const { width } = getOverlayLayout();
+
+  const background = scene.add.rectangle(0, height / 2, width, height, 0x000000, 0.85);
+  background.setStrokeStyle(2, 0xffffff, 0.6);
+  background.setInteractive();
+
+  return scene.add.container(
+    GAME_CONSTANTS.CANVAS_WIDTH / 2,
+    GAME_CONSTANTS.CANVAS_HEIGHT / 2 - height / 2,
+    [background, ...objects]
+  );
+}
+
+/**
+ * Text dengan font game, size dalam px sebelum SCALE_FACTOR
+ */
+export function createOverlayText(
+  scene: Phaser.Scene,
+  x: number,
+  y: number,
+  text: string,
+  size: number,
+  color: string,
+  fontStyle?: string
+): Phaser.GameObjects.Text {
+  return scene.add.text(x, y, text, {
+    fontFamily: GAME_CONSTANTS.FONT_FAMILY,
+    fontSize: Math.floor(size * GAME_CONSTANTS.SCALE_FACTOR) + 'px',
+    color,
+    fontStyle
+  }).setResolution(2);
+}
+
+/**
+ * Tombol menu: primary = MENU_BUTTON_COLOR, lainnya transparan dengan outline
+ * @returns objects untuk dimasukkan ke panel, label untuk ganti text tombol
+ */
+export function createOverlayButton(
+  scene: Phaser.Scene,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  text: string,
+  primary: boolean,
+  onClick: () => void
+): { objects: Phaser.GameObjects.GameObject[]; label: Phaser.GameObjects.Text } {
+  const background = scene.add.rectangle(x, y, width, height, primary ? GAME_CONSTANTS.MENU_BUTTON_COLOR : 0xffffff, primary ? 1 : 0.15);
+  if (!primary) background.setStrokeStyle(2, 0xffffff, 0.6);
+  background.setInteractive({ useHandCursor: true });
+  background.on('pointerdown', onClick);
+
+  const label = createOverlayText(scene, x, y, text, 16, '#ffffff', '700').setOrigin(0.5);
+  return { objects: [background, label], label };
+}
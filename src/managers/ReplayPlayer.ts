@@ -0,0 +1,65 @@
+import { PlayerAction, InputRecording } from '../types';
+
+/**
+ * ReplayPlayer - Memutar ulang InputRecording tick per tick
+ *
+ * TetrisScene memanggil takeActions(tick) di awal setiap game tick, sebelum gravity,
+ * sama seperti urutan saat input asli terjadi.
+ */
+export class ReplayPlayer {
+  private recording: InputRecording | null = null;
+  private nextIndex: number = 0;
+  private speed: number = 1;
+
+  /**
+   * Load recording dan mulai dari awal
+   */
+  load(recording: InputRecording, speed: number = 1): void {
+    this.recording = recording;
+    this.nextIndex = 0;
+    this.speed = speed;
+  }
+
+  stop(): void {
+    this.recording = null;
+    this.nextIndex = 0;
+  }
+
+  isPlaying(): boolean {
+    return this.recording !== null;
+  }
+
+  getRecording(): InputRecording | null {
+    return this.recording;
+  }
+
+  /**
+   * Ambil semua aksi yang di-record untuk tick ini (urutan sesuai recording)
+   */
+  takeActions(tick: number): PlayerAction[] {
+    if (!this.recording) return [];
+
+    const actions: PlayerAction[] = [];
+    const inputs = this.recording.inputs;
+    while (this.nextIndex < inputs.length && inputs[this.nextIndex].tick <= tick) {
+      actions.push(inputs[this.nextIndex].action);
+      this.nextIndex++;
+    }
+    return actions;
+  }
+
+  /**
+   * Apakah semua input sudah diputar
+   */
+  isFinished(): boolean {
+    return !this.recording || this.nextIndex >= this.recording.inputs.length;
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = speed;
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+}
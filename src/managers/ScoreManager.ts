@@ -0,0 +1,92 @@
+import { LockedPiece, ScoringRules, ScoreBreakdown } from '../types';
+import { BoardModel } from '../core/BoardModel';
+
+/**
+ * Default rules jika mode tidak punya "scoring" di gameplay_config.json
+ */
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  placement: 10,
+  per_tile: 5,
+  per_row: 100,
+  multi_row_bonus: 50,
+  low_stack_bonus: 2,
+  skip_penalty: 5,
+  switch_penalty: 5,
+  free_skips: 3,
+  free_switches: 3
+};
+
+/**
+ * ScoreManager - Hitung score berdasarkan scoring rules per mode
+ *
+ * Score dihitung dari placement, tiles, rows yang di-clear, tinggi stack saat lock,
+ * dan penalty untuk skip/switch di luar jatah gratis. Total tidak pernah di bawah 0.
+ */
+export class ScoreManager {
+  private rules: ScoringRules = { ...DEFAULT_SCORING_RULES };
+  private breakdown: ScoreBreakdown = ScoreManager.emptyBreakdown();
+  private skipCount: number = 0;
+  private switchCount: number = 0;
+
+  /**
+   * Set rules dari gameplay config (field yang kosong memakai default)
+   */
+  setRules(rules?: Partial<ScoringRules>): void {
+    this.rules = { ...DEFAULT_SCORING_RULES, ...rules };
+  }
+
+  getRules(): ScoringRules {
+    return { ...this.rules };
+  }
+
+  reset(): void {
+    this.breakdown = ScoreManager.emptyBreakdown();
+    this.skipCount = 0;
+    this.switchCount = 0;
+  }
+
+  /**
+   * Score untuk piece yang baru di-lock (panggil sebelum line clear)
+   */
+  onLock(piece: LockedPiece, board: BoardModel): void {
+    this.breakdown.placement += this.rules.placement;
+    this.breakdown.tiles += piece.cells.length * this.rules.per_tile;
+
+    // Makin rendah stack, makin besar bonus
+    const emptyRows = board.getHeight() - board.getStackHeight();
+    this.breakdown.lowStack += emptyRows * this.rules.low_stack_bonus;
+  }
+
+  onLinesCleared(rowCount: number): void {
+    if (rowCount <= 0) return;
+    this.breakdown.rows += rowCount * this.rules.per_row + (rowCount - 1) * this.rules.multi_row_bonus;
+  }
+
+  onSkip(): void {
+    this.skipCount++;
+    if (this.skipCount > this.rules.free_skips) {
+      this.breakdown.skipPenalty -= this.rules.skip_penalty;
+    }
+  }
+
+  onSwitch(): void {
+    this.switchCount++;
+    if (this.switchCount > this.rules.free_switches) {
+      this.breakdown.switchPenalty -= this.rules.switch_penalty;
+    }
+  }
+
+  getScore(): number {
+    const b = this.breakdown;
+    const total = b.placement + b.tiles + b.rows + b.lowStack + b.skipPenalty + b.switchPenalty;
+    return Math.max(0, total);
+  }
+
+  getBreakdown(): ScoreBreakdown {
+    return { ...this.breakdown };
+  }
+
+  private static emptyBreakdown(): ScoreBreakdown {
+    return { placement: 0, tiles: 0, rows: 0, lowStack: 0, skipPenalty: 0, switchPenalty: 0 };
+  }
+}
@@ -1,4 +1,17 @@
 import { ShapeData, Tetromino } from '../types';
+import { SeededRandom } from '../core/SeededRandom';
+import { PlacementTarget } from '../core/BoardModel';
+import {
+  RotationSystem,
+  KickTableRotationSystem,
+  getRotationStates,
+  getMatrixForRotation,
+  rotateMatrixClockwise
+} from '../core/RotationSystem';
+import { Randomizer, GapRandomizer } from '../core/Randomizer';
+
+// Satu piece = satu skill: 1 posisi, atau 2 posisi untuk label yang di-split (S/Z)
+const MAX_TEXT_POSITIONS = 2;
 
 /**
  * ShapeManager - Mengelola shape data, random generation, dan rotation logic
@@ -11,14 +24,22 @@ import { ShapeData, Tetromino } from '../types';
  * Rule:
  * - Sekali label di-assign (tampil di tetromino), TIDAK boleh muncul lagi sampai cycle reset
  * - Skip TIDAK mengembalikan label — label tetap "used"
+ * - Hold menyimpan label bersama piece, label tetap pending selama di hold slot
  * - Cycle reset saat semua label sudah used, clear semua kecuali no_duplicates
+ *
+ * Semua randomness lewat SeededRandom yang di-inject, jadi session bisa di-reproduce dari seed.
  */
 export class ShapeManager {
+  private random: SeededRandom;
+  private rotationSystem: RotationSystem = new KickTableRotationSystem();
+  private randomizer: Randomizer = new GapRandomizer();
   private shapeData: ShapeData[] = [];
   private labelData: string[] = [];
   private currentGameplayType: string = '';
+  private originalSuggestedSkills: string[] = []; // Urutan asli sebelum shuffle
   private suggestedSkills: string[] = [];
   private noDuplicates: string[] = [];
+  private gridWidth: number = 8; // Untuk posisi x awal tetromino, di-set scene sesuai grid mode
 
   // Label tracking
   private usedLabels: Set<string> = new Set();      // Semua label yang pernah di-assign (never removed until cycle reset)
@@ -29,32 +50,37 @@ export class ShapeManager {
   // Track used labels from noDuplicates list
   private usedNoDuplicates: Set<string> = new Set();
 
-  // Track recent shape groups to prevent duplicates within gap
-  private recentShapeGroups: string[] = [];
-  private readonly SHAPE_GAP: number = 3;
-
   // Track recent labels to prevent duplicates within gap
   private recentLabels: string[] = [];
   private readonly LABEL_GAP: number = 4;
 
-  constructor() {}
+  constructor(random: SeededRandom = new SeededRandom()) {
+    this.random = random;
+  }
+
+  /**
+   * Reset PRNG ke seed tertentu. Panggil sebelum reset() agar shuffle skills ikut ter-reproduce
+   */
+  setSeed(seed: number): void {
+    this.random.setSeed(seed);
+  }
+
+  getSeed(): number {
+    return this.random.getSeed();
+  }
 
   setGameplayType(type: string): void {
     this.currentGameplayType = type;
   }
 
-  setSuggestedSkills(skills: string[]): void {
-    this.suggestedSkills = this.shuffleArray([...skills]);
-    console.log('Shuffled suggested skills:', this.suggestedSkills);
+  setGridWidth(width: number): void {
+    this.gridWidth = width;
   }
 
-  private shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
+  setSuggestedSkills(skills: string[]): void {
+    this.originalSuggestedSkills = [...skills];
+    this.suggestedSkills = this.random.shuffle(this.originalSuggestedSkills);
+    console.log('Shuffled suggested skills:', this.suggestedSkills);
   }
 
   setNoDuplicates(noDuplicates: string[]): void {
@@ -69,7 +95,9 @@ export class ShapeManager {
   }
 
   reset(): void {
-    this.recentShapeGroups = [];
+    // Shuffle ulang dari urutan asli agar restart dengan seed sama menghasilkan urutan sama
+    this.suggestedSkills = this.random.shuffle(this.originalSuggestedSkills);
+    this.randomizer.reset();
     this.recentLabels = [];
     this.usedLabels.clear();
     this.usedNoDuplicates.clear();
@@ -133,6 +161,16 @@ export class ShapeManager {
     console.log(`Labels skipped: [${[...originalLabels].join(', ')}] | Pending: ${this.pendingLabels.size} | Used: ${this.usedLabels.size}`);
   }
 
+  /**
+   * Handle hold — label ikut disimpan di hold slot, tetap pending agar tidak di-assign ke piece lain
+   */
+  markLabelsHeld(labels: string[]): void {
+    for (const label of labels) {
+      if (!label) continue; // Posisi kosong (S/Z tanpa label 2 kata)
+      this.pendingLabels.add(this.resolveOriginalLabel(label));
+    }
+  }
+
   /**
    * Adapt labels saat switch ke shape baru.
    * - Jika switch ke S/Z (textPositionCount=2) dan label saat ini 1 buah + splittable → split
@@ -172,12 +210,6 @@ export class ShapeManager {
     return currentLabels;
   }
 
-  private getShapeGroup(shapeName: string): string {
-    if (shapeName === 's' || shapeName === 'z') return 'sz';
-    if (shapeName === 'l' || shapeName === 'j') return 'lj';
-    return shapeName;
-  }
-
   private canUseLabel(label: string): boolean {
     if (!this.noDuplicates.includes(label)) return true;
     if (this.usedNoDuplicates.has(label)) return false;
@@ -225,8 +257,92 @@ export class ShapeManager {
     );
   }
 
-  setShapeData(data: ShapeData[]): void {
-    this.shapeData = data;
+  /**
+   * Set shape list dari shape_data.json (divalidasi dulu, lihat normalizeShapeData)
+   */
+  setShapeData(data: unknown): void {
+    this.shapeData = ShapeManager.normalizeShapeData(data);
+    console.log(`Shapes loaded: ${this.shapeData.map(shape => shape.shape_name).join(', ')}`);
+  }
+
+  getShapeData(): ShapeData[] {
+    return this.shapeData;
+  }
+
+  /**
+   * false = shape_data.json tidak punya shape valid (data error, game tidak bisa dimulai)
+   */
+  hasShapes(): boolean {
+    return this.shapeData.length > 0;
+  }
+
+  /**
+   * Validasi shape_data.json - polyomino apa saja boleh (domino, triomino, pentomino, ...)
+   * Shape tanpa shape_name unik atau tanpa matrix persegi 0/1 (minimal satu tile) di-skip dengan warning.
+   * text_position kosong = satu label di tengah, label kosong = label default.
+   * Maksimal 2 text position (satu skill, di-split jadi 2 baris seperti S/Z), sisanya di-skip dengan warning.
+   * Tidak ada shape valid sama sekali = error (hasil kosong, lihat hasShapes).
+   */
+  static normalizeShapeData(data: unknown): ShapeData[] {
+    if (!Array.isArray(data)) {
+      console.error('shape_data.json must be an array of shapes');
+      return [];
+    }
+
+    const shapes: ShapeData[] = [];
+    for (const [index, raw] of data.entries()) {
+      const shape = raw as Partial<ShapeData> | null;
+      const name = shape?.shape_name;
+
+      if (typeof name !== 'string' || name.trim() === '') {
+        console.warn(`Shape #${index} skipped: missing shape_name`);
+        continue;
+      }
+      if (shapes.some(existing => existing.shape_name === name)) {
+        console.warn(`Shape "${name}" skipped: duplicate shape_name`);
+        continue;
+      }
+      if (!ShapeManager.isValidMatrix(shape!.matrix)) {
+        console.warn(`Shape "${name}" skipped: matrix must be a rectangular grid of 0/1 with at least one tile`);
+        continue;
+      }
+
+      let textPosition = Array.isArray(shape!.text_position) && shape!.text_position.length > 0
+        ? shape!.text_position
+        : [[0, 0]];
+      if (textPosition.length > MAX_TEXT_POSITIONS) {
+        console.warn(`Shape "${name}": only the first ${MAX_TEXT_POSITIONS} text_position entries are used (one skill per piece)`);
+        textPosition = textPosition.slice(0, MAX_TEXT_POSITIONS);
+      }
+
+      shapes.push({
+        ...shape as ShapeData,
+        text_position: textPosition,
+        label: Array.isArray(shape!.label) ? shape!.label : []
+      });
+    }
+
+    if (shapes.length === 0) {
+      console.error('shape_data.json has no valid shapes, the game cannot start');
+    }
+    return shapes;
+  }
+
+  private static isValidMatrix(matrix: unknown): matrix is number[][] {
+    if (!Array.isArray(matrix) || matrix.length === 0) return false;
+
+    const width = Array.isArray(matrix[0]) ? matrix[0].length : 0;
+    if (width === 0) return false;
+
+    let tiles = 0;
+    for (const row of matrix) {
+      if (!Array.isArray(row) || row.length !== width) return false;
+      for (const cell of row) {
+        if (cell !== 0 && cell !== 1) return false;
+        tiles += cell;
+      }
+    }
+    return tiles > 0;
   }
 
   setLabelData(labels: string[]): void {
@@ -238,30 +354,24 @@ export class ShapeManager {
 
     const maxRerollAttempts = 10;
     let rerollAttempts = 0;
-    while ((randomShape.shape_name === 's' || randomShape.shape_name === 'z') &&
+    // Shape dengan 2 text position (S/Z atau custom) butuh label yang bisa di-split
+    while (randomShape.text_position.length === 2 &&
            !this.hasValidTwoWordLabels() &&
            rerollAttempts < maxRerollAttempts) {
       console.log(`Shape ${randomShape.shape_name.toUpperCase()} selected but no valid 2-word labels, re-rolling...`);
+      this.randomizer.putBack(randomShape);
       randomShape = this.getRandomShape();
       rerollAttempts++;
     }
 
     const labels = this.getLabelsForShape(randomShape);
 
-    const rotations = [0, 90, 180, 270];
-    const randomRotation = rotations[Math.floor(Math.random() * rotations.length)];
-    const finalRotation = randomShape.shape_name === 'o' ? 0
-      : (randomShape.shape_name === 's' || randomShape.shape_name === 'z') ? [0, 90][Math.floor(Math.random() * 2)]
-      : randomRotation;
-
-    let matrix = this.cloneMatrix(randomShape.matrix);
-    for (let i = 0; i < (finalRotation / 90); i++) {
-      matrix = this.rotateMatrix(matrix);
-    }
+    const finalRotation = this.pickRandomRotation(randomShape);
+    const matrix = getMatrixForRotation(randomShape, finalRotation);
 
     return {
       shape: randomShape,
-      x: Math.floor(4 - matrix[0].length / 2),
+      x: Math.floor((this.gridWidth - matrix[0].length) / 2),
       y: 0,
       rotation: finalRotation,
       matrix: matrix,
@@ -273,20 +383,12 @@ export class ShapeManager {
     const randomShape = this.getRandomShapeForSwitch();
     const labels = this.getLabelsForShape(randomShape);
 
-    const rotations = [0, 90, 180, 270];
-    const randomRotation = rotations[Math.floor(Math.random() * rotations.length)];
-    const finalRotation = randomShape.shape_name === 'o' ? 0
-      : (randomShape.shape_name === 's' || randomShape.shape_name === 'z') ? [0, 90][Math.floor(Math.random() * 2)]
-      : randomRotation;
-
-    let matrix = this.cloneMatrix(randomShape.matrix);
-    for (let i = 0; i < (finalRotation / 90); i++) {
-      matrix = this.rotateMatrix(matrix);
-    }
+    const finalRotation = this.pickRandomRotation(randomShape);
+    const matrix = getMatrixForRotation(randomShape, finalRotation);
 
     return {
       shape: randomShape,
-      x: Math.floor(4 - matrix[0].length / 2),
+      x: Math.floor((this.gridWidth - matrix[0].length) / 2),
       y: 0,
       rotation: finalRotation,
       matrix: matrix,
@@ -297,47 +399,24 @@ export class ShapeManager {
   private getRandomShape(): ShapeData {
     let availableShapes = this.shapeData;
 
+    // Adapter: tanpa shape 2 text position (S/Z atau custom), bisa didapat lewat switch
     if (this.currentGameplayType === 'adapter') {
-      availableShapes = this.shapeData.filter(shape =>
-        shape.shape_name !== 's' && shape.shape_name !== 'z'
-      );
-    }
-
-    if (this.recentShapeGroups.length > 0 && availableShapes.length > this.recentShapeGroups.length) {
-      availableShapes = availableShapes.filter(shape =>
-        !this.recentShapeGroups.includes(this.getShapeGroup(shape.shape_name))
-      );
-    }
-
-    const randomIndex = Math.floor(Math.random() * availableShapes.length);
-    const selectedShape = availableShapes[randomIndex];
-
-    this.recentShapeGroups.push(this.getShapeGroup(selectedShape.shape_name));
-    if (this.recentShapeGroups.length > this.SHAPE_GAP) {
-      this.recentShapeGroups.shift();
+      availableShapes = this.shapeData.filter(shape => shape.text_position.length !== 2);
     }
 
-    return selectedShape;
+    // Strategy per mode: gap (default), 7-bag, atau weighted
+    return this.randomizer.next(availableShapes, this.random);
   }
 
   private getRandomShapeForSwitch(): ShapeData {
-    const randomIndex = Math.floor(Math.random() * this.shapeData.length);
-    return this.shapeData[randomIndex];
+    return this.random.pick(this.shapeData);
   }
 
   generateRandomShapeForSwitch(): { shape: ShapeData; rotation: number; matrix: number[][] } {
     const randomShape = this.getRandomShapeForSwitch();
 
-    const rotations = [0, 90, 180, 270];
-    const randomRotation = rotations[Math.floor(Math.random() * rotations.length)];
-    const finalRotation = randomShape.shape_name === 'o' ? 0
-      : (randomShape.shape_name === 's' || randomShape.shape_name === 'z') ? [0, 90][Math.floor(Math.random() * 2)]
-      : randomRotation;
-
-    let matrix = this.cloneMatrix(randomShape.matrix);
-    for (let i = 0; i < (finalRotation / 90); i++) {
-      matrix = this.rotateMatrix(matrix);
-    }
+    const finalRotation = this.pickRandomRotation(randomShape);
+    const matrix = getMatrixForRotation(randomShape, finalRotation);
 
     return { shape: randomShape, rotation: finalRotation, matrix };
   }
@@ -535,34 +614,45 @@ export class ShapeManager {
   }
 
   rotateMatrix(matrix: number[][]): number[][] {
-    const rows = matrix.length;
-    const cols = matrix[0].length;
-    const rotated: number[][] = [];
-
-    for (let col = 0; col < cols; col++) {
-      const newRow: number[] = [];
-      for (let row = rows - 1; row >= 0; row--) {
-        newRow.push(matrix[row][col]);
-      }
-      rotated.push(newRow);
-    }
+    return rotateMatrixClockwise(matrix);
+  }
 
-    return rotated;
+  /**
+   * Ganti rotation system (lihat core/RotationSystem)
+   */
+  setRotationSystem(rotationSystem: RotationSystem): void {
+    this.rotationSystem = rotationSystem;
   }
 
-  rotateTetromino(tetromino: Tetromino): Tetromino {
-    const newRotation = (tetromino.rotation + 90) % 360;
-    const newMatrix = this.rotateMatrix(tetromino.matrix);
+  getRotationSystem(): RotationSystem {
+    return this.rotationSystem;
+  }
 
-    return {
-      ...tetromino,
-      rotation: newRotation,
-      matrix: newMatrix
-    };
+  /**
+   * Set randomizer strategy (lihat core/Randomizer.ts), state lama di-reset
+   */
+  setRandomizer(randomizer: Randomizer): void {
+    this.randomizer = randomizer;
+    this.randomizer.reset();
+  }
+
+  getRandomizer(): Randomizer {
+    return this.randomizer;
+  }
+
+  /**
+   * Rotate ke rotation state berikutnya lewat rotation system (termasuk wall kicks)
+   * @returns null jika rotation tidak bisa dilakukan
+   */
+  rotateTetromino(tetromino: Tetromino, canPlace: (target: PlacementTarget) => boolean): Tetromino | null {
+    return this.rotationSystem.rotate(tetromino, canPlace);
   }
 
-  private cloneMatrix(matrix: number[][]): number[][] {
-    return matrix.map(row => [...row]);
+  /**
+   * Random rotation dari rotation states shape (shape_data.json → rotations)
+   */
+  private pickRandomRotation(shape: ShapeData): number {
+    return this.random.pick(getRotationStates(shape));
   }
 
   getShapeByName(name: string): ShapeData | undefined {
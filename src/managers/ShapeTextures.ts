@@ -0,0 +1,123 @@
+import Phaser from 'phaser';
+import { ShapeData, ShapeTextureType } from '../types';
+
+const TEXTURE_TYPES: ShapeTextureType[] = ['color', 'outline', 'prediction'];
+
+// Field path di shape_data.json per texture type
+const PATH_FIELDS: Record<ShapeTextureType, 'color_path' | 'outline_path' | 'prediction_path'> = {
+  color: 'color_path',
+  outline: 'outline_path',
+  prediction: 'prediction_path'
+};
+
+// Ukuran 1 tile di texture procedural (px), di-scale ke tileSize saat render
+const GENERATED_TILE_SIZE = 120;
+
+// Warna texture procedural untuk shape tanpa "color"
+const GENERATED_PALETTE = ['#6C8CD5', '#8C6CE0', '#5FB4C9', '#E07BB5', '#7BC47F', '#E0A05C', '#C96C6C'];
+
+/**
+ * Texture key untuk shape & type, mis. shape_t_color
+ */
+export function getShapeTextureKey(shapeName: string, type: ShapeTextureType): string {
+  return `shape_${shapeName}_${type}`;
+}
+
+/**
+ * Queue image shape art dari shape_data.json (panggil dari filecomplete shapeData di preload)
+ * Shape tanpa path di-skip, texture-nya dibuat oleh createMissingShapeTextures
+ */
+export function loadShapeTextures(loader: Phaser.Loader.LoaderPlugin, data: unknown): void {
+  if (!Array.isArray(data)) return;
+
+  for (const shape of data as Partial<ShapeData>[]) {
+    if (typeof shape?.shape_name !== 'string') continue;
+
+    for (const type of TEXTURE_TYPES) {
+      const path = shape[PATH_FIELDS[type]];
+      if (typeof path === 'string' && path !== '') {
+        loader.image(getShapeTextureKey(shape.shape_name, type), path);
+      }
+    }
+  }
+}
+
+/**
+ * Gambar texture procedural untuk shape yang art-nya tidak ada (path kosong atau gagal load)
+ * Dipanggil di create setelah loader selesai
+ */
+export function createMissingShapeTextures(scene: Phaser.Scene, shapes: ShapeData[]): void {
+  const generated: string[] = [];
+
+  shapes.forEach((shape, index) => {
+    const color = Phaser.Display.Color.HexStringToColor(
+      shape.color || GENERATED_PALETTE[index % GENERATED_PALETTE.length]
+    ).color;
+
+    for (const type of TEXTURE_TYPES) {
+      const key = getShapeTextureKey(shape.shape_name, type);
+      if (scene.textures.exists(key)) continue;
+
+      generateShapeTexture(scene, key, shape.matrix, type, color);
+      generated.push(key);
+    }
+  });
+
+  if (generated.length > 0) {
+    console.warn(`Shape art missing, using generated textures: ${generated.join(', ')}`);
+  }
+}
+
+/**
+ * Tile per cell matrix + garis di sisi luar shape
+ * color = warna solid, outline = garis putih (untuk falling piece), prediction = putih transparan
+ */
+function generateShapeTexture(
+  scene: Phaser.Scene,
+  key: string,
+  matrix: number[][],
+  type: ShapeTextureType,
+  color: number
+): void {
+  const size = GENERATED_TILE_SIZE;
+  const lineWidth = size * 0.08;
+  const isFilled = (row: number, col: number) => matrix[row]?.[col] === 1;
+
+  const graphics = scene.make.graphics({ x: 0, y: 0 }, false);
+
+  if (type === 'color') {
+    graphics.fillStyle(color, 1);
+    graphics.lineStyle(lineWidth, 0xffffff, 0.5);
+  } else if (type === 'outline') {
+    graphics.fillStyle(0xffffff, 0.12);
+    graphics.lineStyle(lineWidth, 0xffffff, 1);
+  } else {
+    graphics.fillStyle(0xffffff, 0.5);
+    graphics.lineStyle(lineWidth, 0xffffff, 0.8);
+  }
+
+  for (let row = 0; row < matrix.length; row++) {
+    for (let col = 0; col < matrix[row].length; col++) {
+      if (!isFilled(row, col)) continue;
+      graphics.fillRect(col * size, row * size, size, size);
+    }
+  }
+
+  // Garis di sisi luar (di-inset setengah lineWidth agar tidak terpotong di tepi texture)
+  const inset = lineWidth / 2;
+  for (let row = 0; row < matrix.length; row++) {
+    for (let col = 0; col < matrix[row].length; col++) {
+      if (!isFilled(row, col)) continue;
+
+      const left = col * size;
+      const top = row * size;
+      if (!isFilled(row - 1, col)) graphics.lineBetween(left, top + inset, left + size, top + inset);
+      if (!isFilled(row + 1, col)) graphics.lineBetween(left, top + size - inset, left + size, top + size - inset);
+      if (!isFilled(row, col - 1)) graphics.lineBetween(left + inset, top, left + inset, top + size);
+      if (!isFilled(row, col + 1)) graphics.lineBetween(left + size - inset, top, left + size - inset, top + size);
+    }
+  }
+
+  graphics.generateTexture(key, matrix[0].length * size, matrix.length * size);
+  graphics.destroy();
+}
@@ -1,6 +1,13 @@
 import Phaser from 'phaser';
 import { Tetromino, GameConfig } from '../types';
 import { GAME_CONSTANTS } from '../config/constants';
+import { getShapeTextureKey } from './ShapeTextures';
+import { GameBoard } from './GameBoard';
+
+/**
+ * Bagian GameBoard yang dibutuhkan untuk menghitung landing position (ghost piece)
+ */
+type LandingBoard = Pick<GameBoard, 'findLandingPosition'>;
 
 /**
  * TetrominoRenderer - Mengelola rendering tetromino dengan images dan text labels
@@ -11,6 +18,8 @@ export class TetrominoRenderer {
   private container: Phaser.GameObjects.Container | null = null;
   private predictionContainer: Phaser.GameObjects.Container | null = null;
   private predictionImage: Phaser.GameObjects.Image | null = null;
+  private ghostImage: Phaser.GameObjects.Image | null = null;
+  private lockOutline: Phaser.GameObjects.Graphics | null = null;
 
   constructor(scene: Phaser.Scene, config: GameConfig) {
     this.scene = scene;
@@ -48,7 +57,7 @@ export class TetrominoRenderer {
     const matrix = tetromino.matrix;
     const originalMatrix = tetromino.shape.matrix;
     // Use outline for active (falling) tetromino
-    const shapeKey = `shape_${tetromino.shape.shape_name}_outline`;
+    const shapeKey = getShapeTextureKey(tetromino.shape.shape_name, 'outline');
 
     // Hitung center berdasarkan actual filled tiles untuk akurasi
     const center = this.calculateTrueCenter(matrix, tetromino.x, tetromino.y);
@@ -194,8 +203,8 @@ export class TetrominoRenderer {
     // Use the original matrix for image dimensions (avoid stretching)
     const originalMatrix = tetromino.shape.matrix;
     const shapeKey = useColor
-      ? `shape_${tetromino.shape.shape_name}_color`
-      : `shape_${tetromino.shape.shape_name}_outline`;
+      ? getShapeTextureKey(tetromino.shape.shape_name, 'color')
+      : getShapeTextureKey(tetromino.shape.shape_name, 'outline');
 
     // Ukuran original shape (sebelum rotation) untuk image
     const originalWidth = originalMatrix[0].length * this.config.tileSize;
@@ -293,7 +302,7 @@ export class TetrominoRenderer {
     const currentTetromino = this.createRotatedTetromino(tetromino, tetromino.rotation);
 
     const originalMatrix = currentTetromino.shape.matrix;
-    const shapeKey = `shape_${currentTetromino.shape.shape_name}_prediction`;
+    const shapeKey = getShapeTextureKey(currentTetromino.shape.shape_name, 'prediction');
 
     // Ukuran original shape (sebelum rotation) untuk image display
     const originalWidth = originalMatrix[0].length * this.config.tileSize;
@@ -310,17 +319,93 @@ export class TetrominoRenderer {
   }
 
   /**
-   * Calculate where tetromino will land
+   * Render ghost piece di landing position current tetromino (prediction texture, alpha rendah)
+   * Terpisah dari prediction "optimal" milik explorer mode
    */
-  private calculateLandingPosition(tetromino: Tetromino, gameBoard: any): { x: number; y: number } {
-    let testY = tetromino.y;
+  renderGhost(tetromino: Tetromino, gameBoard: LandingBoard): void {
+    const landing = this.calculateLandingPosition(tetromino, gameBoard);
+    const center = this.calculateTrueCenter(tetromino.matrix, landing.x, landing.y);
 
-    // Keep moving down until collision
-    while (gameBoard.canPlace({ ...tetromino, y: testY + 1 })) {
-      testY++;
+    const originalMatrix = tetromino.shape.matrix;
+    const originalWidth = originalMatrix[0].length * this.config.tileSize;
+    const originalHeight = originalMatrix.length * this.config.tileSize;
+    const shapeKey = getShapeTextureKey(tetromino.shape.shape_name, 'prediction');
+
+    // Reuse image, cukup update posisi/texture tiap move
+    if (!this.ghostImage) {
+      this.ghostImage = this.scene.add.image(center.x, center.y, shapeKey);
+      this.ghostImage.setAlpha(GAME_CONSTANTS.GHOST_ALPHA);
+    } else {
+      this.ghostImage.setTexture(shapeKey);
+      this.ghostImage.setPosition(center.x, center.y);
     }
+    this.ghostImage.setDisplaySize(originalWidth, originalHeight);
+    this.ghostImage.setAngle(tetromino.rotation);
+  }
+
+  /**
+   * Destroy ghost piece
+   */
+  destroyGhost(): void {
+    if (this.ghostImage) {
+      this.ghostImage.destroy();
+      this.ghostImage = null;
+    }
+  }
+
+  /**
+   * Render outline berkedip di sekeliling piece yang grounded (lock delay)
+   * Kedipan makin cepat mendekati lock (progress 0..1)
+   */
+  renderLockOutline(tetromino: Tetromino, progress: number, time: number): void {
+    if (!this.lockOutline) {
+      this.lockOutline = this.scene.add.graphics();
+      this.lockOutline.setDepth(10);
+    }
+
+    const tileSize = this.config.tileSize;
+    const matrix = tetromino.matrix;
+    const isFilled = (row: number, col: number) => matrix[row]?.[col] === 1;
 
-    return { x: tetromino.x, y: testY };
+    // 2-8 kedipan per detik
+    const flashesPerSecond = 2 + progress * 6;
+    const alpha = 0.35 + 0.65 * Math.abs(Math.sin(time / 1000 * Math.PI * flashesPerSecond));
+
+    this.lockOutline.clear();
+    this.lockOutline.lineStyle(Math.max(2, Math.floor(3 * GAME_CONSTANTS.SCALE_FACTOR)), 0xffffff, alpha);
+
+    // Gambar hanya sisi cell yang berbatasan dengan cell kosong (outline luar piece)
+    for (let row = 0; row < matrix.length; row++) {
+      for (let col = 0; col < matrix[row].length; col++) {
+        if (!isFilled(row, col)) continue;
+
+        const left = this.config.boardX + (tetromino.x + col) * tileSize;
+        const top = this.config.boardY + (tetromino.y + row) * tileSize;
+
+        if (!isFilled(row - 1, col)) this.lockOutline.lineBetween(left, top, left + tileSize, top);
+        if (!isFilled(row + 1, col)) this.lockOutline.lineBetween(left, top + tileSize, left + tileSize, top + tileSize);
+        if (!isFilled(row, col - 1)) this.lockOutline.lineBetween(left, top, left, top + tileSize);
+        if (!isFilled(row, col + 1)) this.lockOutline.lineBetween(left + tileSize, top, left + tileSize, top + tileSize);
+      }
+    }
+  }
+
+  /**
+   * Destroy lock outline
+   */
+  destroyLockOutline(): void {
+    if (this.lockOutline) {
+      this.lockOutline.destroy();
+      this.lockOutline = null;
+    }
+  }
+
+  /**
+   * Calculate where tetromino will land
+   */
+  private calculateLandingPosition(tetromino: Tetromino, gameBoard: LandingBoard): { x: number; y: number } {
+    // Landing calculation ada di BoardModel agar sama dengan hard drop
+    return gameBoard.findLandingPosition(tetromino);
   }
 
   /**
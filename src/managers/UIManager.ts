@@ -1,5 +1,5 @@
 import Phaser from 'phaser';
-import { GameConfig, GameplayConfig } from '../types';
+import { GameConfig, GameplayConfig, InputDevice } from '../types';
 import { GAME_CONSTANTS } from '../config/constants';
 
 /**
@@ -17,8 +17,14 @@ export class UIManager {
     rotate?: Phaser.GameObjects.Image;
   } = {};
   private timerText?: Phaser.GameObjects.Text;
+  private scoreText?: Phaser.GameObjects.Text;
+  private levelText?: Phaser.GameObjects.Text;
   private muteButton?: Phaser.GameObjects.Image;
   private infoButton?: Phaser.GameObjects.Image;
+  private replayText?: Phaser.GameObjects.Text;
+  private inputDeviceText?: Phaser.GameObjects.Text;
+  private holdSlot?: Phaser.GameObjects.Container;
+  private boardFrame?: Phaser.GameObjects.Graphics;
   private isMuted: boolean = false;
   private slider: {
     background?: Phaser.GameObjects.Image;
@@ -39,6 +45,7 @@ export class UIManager {
     this.createBackground();
     this.createHeaderSection(gameplayConfig, username);
     this.createPlayAreaPanel();
+    this.createBoardFrame();
     this.createControlButtons(gameplayConfig);
   }
 
@@ -70,7 +77,7 @@ export class UIManager {
 
     const panel = this.scene.add.image(
       (windowWidth / 2),
-      (GAME_CONSTANTS.PLAY_AREA_TOP_MARGIN + (GAME_CONSTANTS.MAX_TETROMINO_HEIGHT * this.config.tileSize * GAME_CONSTANTS.PREVIEW_SCALE / 2) + (panelHeight / 2)),
+      (GAME_CONSTANTS.PLAY_AREA_TOP_MARGIN + (GAME_CONSTANTS.MAX_TETROMINO_HEIGHT * GAME_CONSTANTS.TILE_SIZE * GAME_CONSTANTS.PREVIEW_SCALE / 2) + (panelHeight / 2)),
       'panel'
     );
 
@@ -78,6 +85,34 @@ export class UIManager {
     panel.setDisplaySize(panelWidth, panelHeight);
   }
 
+  /**
+   * Create frame batas grid di atas panel (dibuat setelah panel agar tidak tertutup)
+   */
+  private createBoardFrame(): void {
+    this.boardFrame = this.scene.add.graphics();
+    this.updateBoardFrame();
+  }
+
+  /**
+   * Gambar ulang frame grid sesuai config (board position & size)
+   * Art play area dibuat untuk grid default, jadi frame hanya tampil jika mode memakai ukuran grid lain
+   */
+  updateBoardFrame(): void {
+    if (!this.boardFrame) return;
+    this.boardFrame.clear();
+
+    const isDefaultSize = this.config.gridWidth === GAME_CONSTANTS.GRID_WIDTH &&
+      this.config.gridHeight === GAME_CONSTANTS.GRID_HEIGHT;
+    if (isDefaultSize) return;
+
+    const width = this.config.gridWidth * this.config.tileSize;
+    const height = this.config.gridHeight * this.config.tileSize;
+    this.boardFrame.fillStyle(0xffffff, 0.04);
+    this.boardFrame.fillRect(this.config.boardX, this.config.boardY, width, height);
+    this.boardFrame.lineStyle(2, 0xffffff, 0.35);
+    this.boardFrame.strokeRect(this.config.boardX, this.config.boardY, width, height);
+  }
+
   /**
    * Create header section with vertical layout (instruction → profile with timer)
    */
@@ -118,6 +153,20 @@ export class UIManager {
     }
   }
 
+  /**
+   * Update score display
+   */
+  updateScore(score: number): void {
+    this.scoreText?.setText(`${score}`);
+  }
+
+  /**
+   * Update level indicator
+   */
+  updateLevel(level: number): void {
+    this.levelText?.setText(`LV ${level}`);
+  }
+
   /**
    * Create profile section (pivot from left with margin distance)
    */
@@ -135,7 +184,7 @@ export class UIManager {
     // Hitung max width untuk username agar tidak overlap dengan timer
     const timerX = (GAME_CONSTANTS.CANVAS_WIDTH / 2) + (GAME_CONSTANTS.PLAY_AREA_WIDTH / 2);
     const nameTextX = leftMargin + profileSize + GAME_CONSTANTS.PROFILE_NAME_SPACING;
-    const maxNameWidth = timerX - nameTextX - (175 * GAME_CONSTANTS.SCALE_FACTOR); // 175px padding untuk timer bg dan mute
+    const maxNameWidth = timerX - nameTextX - (175 * GAME_CONSTANTS.SCALE_FACTOR) - GAME_CONSTANTS.SCORE_WIDTH - GAME_CONSTANTS.LEVEL_WIDTH; // 175px padding untuk timer bg dan mute, plus score & level
 
     // Coba 1 baris dulu
     let nameText = this.scene.add.text(
@@ -223,6 +272,38 @@ export class UIManager {
     this.timerText.setOrigin(1, 0.5); // Right center origin
     this.timerText.setResolution(2);
 
+    // Create score text di kiri timer background
+    this.scoreText = this.scene.add.text(
+      timerX - timerBg.displayWidth - GAME_CONSTANTS.HEADER_SPACING,
+      timerY,
+      '0',
+      {
+        fontFamily: GAME_CONSTANTS.FONT_FAMILY,
+        fontSize: Math.floor(24 * GAME_CONSTANTS.SCALE_FACTOR) + 'px',
+        color: GAME_CONSTANTS.TIMER_COLOR_NORMAL,
+        fontStyle: '600',
+        align: 'right'
+      }
+    );
+    this.scoreText.setOrigin(1, 0.5);
+    this.scoreText.setResolution(2);
+
+    // Create level indicator di kiri score (lebar score tetap SCORE_WIDTH)
+    this.levelText = this.scene.add.text(
+      this.scoreText.x - GAME_CONSTANTS.SCORE_WIDTH,
+      timerY,
+      'LV 1',
+      {
+        fontFamily: GAME_CONSTANTS.FONT_FAMILY,
+        fontSize: Math.floor(14 * GAME_CONSTANTS.SCALE_FACTOR) + 'px',
+        color: GAME_CONSTANTS.TIMER_COLOR_NORMAL,
+        fontStyle: '600',
+        align: 'right'
+      }
+    );
+    this.levelText.setOrigin(1, 0.5);
+    this.levelText.setResolution(2);
+
     // Create mute button at right edge
     this.muteButton = this.scene.add.image(rightEdge, timerY, 'button_mute');
     this.muteButton.setOrigin(1, 0.5); // Right center origin
@@ -372,6 +453,7 @@ export class UIManager {
     onRotate: () => void;
     onDownPress?: () => void;
     onDownRelease?: () => void;
+    onHardDrop?: () => void;
   }): void {
     if (this.buttons.skip) {
       this.buttons.skip.on('pointerdown', () => {
@@ -432,8 +514,19 @@ export class UIManager {
     }
 
     if (this.buttons.down) {
+      let lastDownTap = -Infinity;
       this.buttons.down.on('pointerdown', () => {
         this.buttons.down!.setTint(0xcccccc);
+
+        // Double tap = hard drop
+        const now = this.scene.time.now;
+        const isDoubleTap = now - lastDownTap <= GAME_CONSTANTS.HARD_DROP_DOUBLE_TAP_MS;
+        lastDownTap = isDoubleTap ? -Infinity : now;
+        if (isDoubleTap && callbacks.onHardDrop) {
+          callbacks.onHardDrop();
+          return;
+        }
+
         callbacks.onDown();
         if (callbacks.onDownPress) {
           callbacks.onDownPress();
@@ -503,6 +596,14 @@ export class UIManager {
     }
   }
 
+  /**
+   * Set mute state tanpa trigger callback (initial state dari config)
+   */
+  setMuted(isMuted: boolean): void {
+    this.isMuted = isMuted;
+    this.muteButton?.setTexture(isMuted ? 'button_unmute' : 'button_mute');
+  }
+
   /**
    * Get mute state
    */
@@ -527,4 +628,104 @@ export class UIManager {
       });
     }
   }
+
+  /**
+   * Show replay indicator di pojok kiri atas play area (tap untuk ganti speed)
+   */
+  showReplayIndicator(speed: number, onTap: () => void): void {
+    if (!this.replayText) {
+      const leftEdge = (GAME_CONSTANTS.CANVAS_WIDTH / 2) - (GAME_CONSTANTS.PLAY_AREA_WIDTH / 2);
+      const panelTop = GAME_CONSTANTS.PLAY_AREA_TOP_MARGIN + (GAME_CONSTANTS.MAX_TETROMINO_HEIGHT * GAME_CONSTANTS.TILE_SIZE * GAME_CONSTANTS.PREVIEW_SCALE / 2);
+      const margin = 8 * GAME_CONSTANTS.SCALE_FACTOR;
+
+      this.replayText = this.scene.add.text(leftEdge + margin, panelTop + margin, '', {
+        fontFamily: GAME_CONSTANTS.FONT_FAMILY,
+        fontSize: Math.floor(16 * GAME_CONSTANTS.SCALE_FACTOR) + 'px',
+        color: '#ffffff',
+        fontStyle: '600',
+        backgroundColor: '#00000099',
+        padding: { x: 6, y: 3 }
+      });
+      this.replayText.setResolution(2);
+      this.replayText.setDepth(1000);
+      this.replayText.setInteractive({ useHandCursor: true });
+    }
+
+    this.replayText.removeAllListeners('pointerdown');
+    this.replayText.on('pointerdown', onTap);
+    this.replayText.setText(`REPLAY x${speed}`);
+    this.replayText.setVisible(true);
+  }
+
+  /**
+   * Hide replay indicator
+   */
+  hideReplayIndicator(): void {
+    this.replayText?.setVisible(false);
+  }
+
+  /**
+   * Show hold slot (frame + label "HOLD") di posisi tertentu, tap = hold
+   */
+  showHoldSlot(x: number, y: number, size: number, onTap: () => void): void {
+    if (!this.holdSlot) {
+      const frame = this.scene.add.rectangle(0, 0, size, size, 0x000000, 0.25);
+      frame.setStrokeStyle(2, 0xffffff, 0.5);
+
+      const label = this.scene.add.text(-size / 2, -size / 2 - 2, 'HOLD', {
+        fontFamily: GAME_CONSTANTS.FONT_FAMILY,
+        fontSize: Math.floor(11 * GAME_CONSTANTS.SCALE_FACTOR) + 'px',
+        color: '#ffffff',
+        fontStyle: '600'
+      }).setOrigin(0, 1).setResolution(2);
+
+      this.holdSlot = this.scene.add.container(x, y, [frame, label]);
+    }
+
+    const frame = this.holdSlot.list[0] as Phaser.GameObjects.Rectangle;
+    frame.setInteractive({ useHandCursor: true });
+    frame.removeAllListeners('pointerdown');
+    frame.on('pointerdown', onTap);
+    this.holdSlot.setPosition(x, y);
+    this.holdSlot.setVisible(true);
+  }
+
+  /**
+   * Hide hold slot (mode tanpa special_tag "hold")
+   */
+  hideHoldSlot(): void {
+    if (!this.holdSlot) return;
+    (this.holdSlot.list[0] as Phaser.GameObjects.Rectangle).disableInteractive();
+    this.holdSlot.setVisible(false);
+  }
+
+  /**
+   * Show input device yang aktif di pojok kanan atas play area
+   */
+  setInputDevice(device: InputDevice): void {
+    if (!this.inputDeviceText) {
+      const rightEdge = (GAME_CONSTANTS.CANVAS_WIDTH / 2) + (GAME_CONSTANTS.PLAY_AREA_WIDTH / 2);
+      const panelTop = GAME_CONSTANTS.PLAY_AREA_TOP_MARGIN + (GAME_CONSTANTS.MAX_TETROMINO_HEIGHT * GAME_CONSTANTS.TILE_SIZE * GAME_CONSTANTS.PREVIEW_SCALE / 2);
+      const margin = 8 * GAME_CONSTANTS.SCALE_FACTOR;
+
+      this.inputDeviceText = this.scene.add.text(rightEdge - margin, panelTop + margin, '', {
+        fontFamily: GAME_CONSTANTS.FONT_FAMILY,
+        fontSize: Math.floor(12 * GAME_CONSTANTS.SCALE_FACTOR) + 'px',
+        color: '#ffffff',
+        fontStyle: '600',
+        backgroundColor: '#00000066',
+        padding: { x: 6, y: 3 }
+      });
+      this.inputDeviceText.setOrigin(1, 0);
+      this.inputDeviceText.setResolution(2);
+      this.inputDeviceText.setDepth(1000);
+    }
+
+    const labels: Record<InputDevice, string> = {
+      touch: 'TOUCH',
+      keyboard: 'KEYBOARD',
+      gamepad: 'GAMEPAD'
+    };
+    this.inputDeviceText.setText(labels[device]);
+  }
 }
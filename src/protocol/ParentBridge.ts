@@ -0,0 +1,98 @@
+import {
+  GameMessagePayload,
+  ParentToGameMessage,
+  createGameMessage,
+  isOriginAllowed,
+  parseParentMessage
+} from './messages';
+
+/**
+ * ParentBridge - Kirim dan terima protocol messages dengan parent window
+ *
+ * Message hanya diterima dari parent window dengan origin yang ada di allowlist,
+ * dan hanya dikirim ke origin parent tersebut (tidak pernah ke '*').
+ */
+export class ParentBridge {
+  private allowedOrigins: readonly string[];
+  private parentOrigin: string | null;
+
+  constructor(allowedOrigins: readonly string[]) {
+    this.allowedOrigins = allowedOrigins;
+    this.parentOrigin = this.resolveParentOrigin();
+  }
+
+  /**
+   * Apakah game berjalan di dalam iframe
+   */
+  isEmbedded(): boolean {
+    return window.parent !== window;
+  }
+
+  /**
+   * Origin parent yang dipakai sebagai target postMessage (null jika belum diketahui / tidak diizinkan)
+   */
+  getParentOrigin(): string | null {
+    return this.parentOrigin;
+  }
+
+  /**
+   * Kirim message ke parent (version ditambahkan otomatis)
+   */
+  send(payload: GameMessagePayload): void {
+    if (!this.isEmbedded()) return;
+
+    if (!this.parentOrigin) {
+      console.warn(`Parent origin not allowed or unknown, ${payload.type} not sent (see VITE_ALLOWED_PARENT_ORIGINS)`);
+      return;
+    }
+
+    window.parent.postMessage(createGameMessage(payload), this.parentOrigin);
+  }
+
+  /**
+   * Listen message dari parent yang valid
+   * Message dari window lain, origin di luar allowlist, atau shape tidak dikenal diabaikan
+   */
+  listen(handler: (message: ParentToGameMessage) => void): void {
+    window.addEventListener('message', (event: MessageEvent) => {
+      if (!this.isEmbedded() || event.source !== window.parent) return;
+
+      if (!isOriginAllowed(event.origin, this.allowedOrigins)) {
+        console.warn('Message rejected from origin (see VITE_ALLOWED_PARENT_ORIGINS):', event.origin);
+        return;
+      }
+
+      const message = parseParentMessage(event.data);
+      if (!message) {
+        console.warn('Unknown message rejected:', event.data);
+        return;
+      }
+
+      // Origin dari message valid lebih akurat daripada referrer
+      this.parentOrigin = event.origin;
+      handler(message);
+    });
+  }
+
+  /**
+   * Tebak origin parent dari ancestorOrigins (Chrome/Safari) atau document.referrer
+   */
+  private resolveParentOrigin(): string | null {
+    if (!this.isEmbedded()) return null;
+
+    const candidates: string[] = [];
+    const ancestorOrigins = window.location.ancestorOrigins;
+    if (ancestorOrigins && ancestorOrigins.length > 0) {
+      candidates.push(ancestorOrigins[0]);
+    }
+    if (document.referrer) {
+      try {
+        candidates.push(new URL(document.referrer).origin);
+      } catch (e) {
+        // Referrer tidak valid, abaikan
+      }
+    }
+
+    return candidates.find(origin => isOriginAllowed(origin, this.allowedOrigins)) || null;
+  }
+}
@@ -0,0 +1,300 @@
+import { InputRecording, GameResult, KeyBindings } from '../types';
+
+/**
+ * Protocol - Message types antara game (iframe) dan parent page via postMessage
+ *
+ * File ini tidak bergantung ke Phaser atau window, jadi bisa di-import langsung
+ * oleh host page TypeScript untuk type-check dan validasi message dari game.
+ */
+
+export const PROTOCOL_VERSION = 1;
+
+interface BaseMessage {
+  version: typeof PROTOCOL_VERSION;
+}
+
+/**
+ * Session config dari parent (INIT) - field yang kosong diambil dari URL parameters
+ */
+export interface GameInitConfig {
+  gameplayType?: string; // explorer | builder | adapter | innovator
+  timer?: number; // Durasi game dalam detik
+  username?: string;
+  suggestedSkills?: string[];
+  noDuplicates?: string[];
+  seed?: number | string;
+  muted?: boolean;
+  keyboard?: {
+    das?: number; // Delay (ms) sebelum auto-repeat left/right
+    arr?: number; // Interval (ms) auto-repeat, 0 = langsung ke wall
+    bindings?: Partial<KeyBindings>; // KeyboardEvent.code per aksi, e.g. { rotate: ['ArrowUp', 'KeyX'] }
+  };
+}
+
+// ===== Game → Parent =====
+
+export interface LoadProgressMessage extends BaseMessage {
+  type: 'LOAD_PROGRESS';
+  status: 'loading' | 'complete' | 'error';
+  progress: number; // 0..1
+  loaded: number; // Jumlah file selesai (termasuk yang gagal)
+  total: number;
+  failed: string[]; // Key file yang gagal di-load
+  timestamp: number;
+}
+
+export interface GameReadyMessage extends BaseMessage {
+  type: 'GAME_READY';
+  timestamp: number;
+}
+
+export interface GameStartingMessage extends BaseMessage {
+  type: 'GAME_STARTING';
+  seed: number;
+  timestamp: number;
+}
+
+export interface PhaserImageMessage extends BaseMessage {
+  type: 'PHASER_IMAGE';
+  screenshot: string; // base64 data URL
+  seed: number;
+  timestamp: string; // ISO string
+  resolution: {
+    width: number;
+    height: number;
+    multiplier: number;
+  };
+}
+
+export interface GamePausedMessage extends BaseMessage {
+  type: 'GAME_PAUSED';
+  timestamp: number;
+}
+
+export interface GameResumedMessage extends BaseMessage {
+  type: 'GAME_RESUMED';
+  timestamp: number;
+}
+
+export interface GameMuteMessage extends BaseMessage {
+  type: 'GAME_MUTED' | 'GAME_UNMUTED';
+  isMuted: boolean;
+  timestamp: number;
+}
+
+export interface InfoClickedMessage extends BaseMessage {
+  type: 'INFO_CLICKED';
+  timestamp: number;
+}
+
+export interface GameRecordingMessage extends BaseMessage {
+  type: 'GAME_RECORDING';
+  recording: InputRecording;
+  timestamp: number;
+}
+
+export interface GameResultMessage extends BaseMessage {
+  type: 'GAME_RESULT';
+  result: GameResult;
+  timestamp: number;
+}
+
+export type GameToParentMessage =
+  | LoadProgressMessage
+  | GameReadyMessage
+  | GameStartingMessage
+  | PhaserImageMessage
+  | GamePausedMessage
+  | GameResumedMessage
+  | GameMuteMessage
+  | InfoClickedMessage
+  | GameRecordingMessage
+  | GameResultMessage;
+
+export type GameMessageType = GameToParentMessage['type'];
+
+// ===== Parent → Game =====
+
+export interface InitMessage extends BaseMessage {
+  type: 'INIT';
+  config: GameInitConfig;
+}
+
+export interface RestartMessage extends BaseMessage {
+  type: 'restart';
+  seed?: number | string;
+}
+
+export interface PauseMessage extends BaseMessage {
+  type: 'pause';
+}
+
+export interface ResumeMessage extends BaseMessage {
+  type: 'resume';
+}
+
+export interface ReplayMessage extends BaseMessage {
+  type: 'replay';
+  recording: InputRecording;
+  speed?: number;
+}
+
+export interface ReplaySpeedMessage extends BaseMessage {
+  type: 'replay_speed';
+  speed: number;
+}
+
+export type ParentToGameMessage =
+  | InitMessage
+  | RestartMessage
+  | PauseMessage
+  | ResumeMessage
+  | ReplayMessage
+  | ReplaySpeedMessage;
+
+export type ParentMessageType = ParentToGameMessage['type'];
+
+/**
+ * Distributive Omit agar tiap member union tetap ter-narrow
+ */
+type WithoutVersion<T> = T extends BaseMessage ? Omit<T, 'version'> : never;
+
+export type GameMessagePayload = WithoutVersion<GameToParentMessage>;
+export type ParentMessagePayload = WithoutVersion<ParentToGameMessage>;
+
+/**
+ * Tambahkan version ke message dari game
+ */
+export function createGameMessage(payload: GameMessagePayload): GameToParentMessage {
+  return { ...payload, version: PROTOCOL_VERSION } as GameToParentMessage;
+}
+
+/**
+ * Tambahkan version ke message dari parent (untuk host page)
+ */
+export function createParentMessage(payload: ParentMessagePayload): ParentToGameMessage {
+  return { ...payload, version: PROTOCOL_VERSION } as ParentToGameMessage;
+}
+
+// ===== Validation =====
+
+type Fields = Record<string, unknown>;
+type FieldCheck = (data: Fields) => boolean;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOptional = (value: unknown, check: (v: unknown) => boolean): boolean => value === undefined || check(value);
+
+/**
+ * Cek minimal untuk InputRecording (validasi lengkap ada di InputRecorder.isRecording)
+ */
+const isRecordingShape = (value: unknown): boolean => {
+  const recording = value as Fields | null;
+  return !!recording && typeof recording === 'object'
+    && isNumber(recording.seed)
+    && !!recording.session && typeof recording.session === 'object'
+    && Array.isArray(recording.inputs);
+};
+
+const isResultShape = (value: unknown): boolean => {
+  const result = value as Fields | null;
+  return !!result && typeof result === 'object'
+    && typeof result.mode === 'string'
+    && (result.endReason === 'timer' || result.endReason === 'no_spawn')
+    && Array.isArray(result.locked)
+    && Array.isArray(result.skipped)
+    && Array.isArray(result.switched);
+};
+
+const isStringArray = (value: unknown): boolean =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isKeyboardConfig = (value: unknown): boolean => {
+  const keyboard = value as Fields | null;
+  return !!keyboard && typeof keyboard === 'object'
+    && isOptional(keyboard.das, v => isNumber(v) && v >= 0)
+    && isOptional(keyboard.arr, v => isNumber(v) && v >= 0)
+    && isOptional(keyboard.bindings, v => !!v && typeof v === 'object'
+      && Object.values(v as Fields).every(isStringArray));
+};
+
+const isInitConfig = (value: unknown): boolean => {
+  const config = value as Fields | null;
+  return !!config && typeof config === 'object' && !Array.isArray(config)
+    && isOptional(config.gameplayType, v => typeof v === 'string')
+    && isOptional(config.timer, v => isNumber(v) && v > 0)
+    && isOptional(config.username, v => typeof v === 'string')
+    && isOptional(config.suggestedSkills, isStringArray)
+    && isOptional(config.noDuplicates, isStringArray)
+    && isOptional(config.seed, v => isNumber(v) || typeof v === 'string')
+    && isOptional(config.muted, v => typeof v === 'boolean')
+    && isOptional(config.keyboard, isKeyboardConfig);
+};
+
+const PARENT_MESSAGE_CHECKS: Record<ParentMessageType, FieldCheck> = {
+  INIT: data => isInitConfig(data.config),
+  restart: data => isOptional(data.seed, v => isNumber(v) || typeof v === 'string'),
+  pause: () => true,
+  resume: () => true,
+  replay: data => isRecordingShape(data.recording) && isOptional(data.speed, v => isNumber(v) && v > 0),
+  replay_speed: data => isNumber(data.speed) && data.speed > 0
+};
+
+const GAME_MESSAGE_CHECKS: Record<GameMessageType, FieldCheck> = {
+  LOAD_PROGRESS: data => ['loading', 'complete', 'error'].includes(data.status as string)
+    && isNumber(data.progress) && isNumber(data.loaded) && isNumber(data.total)
+    && isStringArray(data.failed) && isNumber(data.timestamp),
+  GAME_READY: data => isNumber(data.timestamp),
+  GAME_STARTING: data => isNumber(data.seed) && isNumber(data.timestamp),
+  PHASER_IMAGE: data => typeof data.screenshot === 'string' && isNumber(data.seed) && typeof data.timestamp === 'string',
+  GAME_PAUSED: data => isNumber(data.timestamp),
+  GAME_RESUMED: data => isNumber(data.timestamp),
+  GAME_MUTED: data => typeof data.isMuted === 'boolean' && isNumber(data.timestamp),
+  GAME_UNMUTED: data => typeof data.isMuted === 'boolean' && isNumber(data.timestamp),
+  INFO_CLICKED: data => isNumber(data.timestamp),
+  GAME_RECORDING: data => isRecordingShape(data.recording) && isNumber(data.timestamp),
+  GAME_RESULT: data => isResultShape(data.result) && isNumber(data.timestamp)
+};
+
+function parseMessage<T>(data: unknown, checks: Record<string, FieldCheck>): T | null {
+  if (!data || typeof data !== 'object') return null;
+
+  const fields = data as Fields;
+  if (fields.version !== PROTOCOL_VERSION || typeof fields.type !== 'string') return null;
+  if (!Object.prototype.hasOwnProperty.call(checks, fields.type)) return null;
+
+  return checks[fields.type](fields) ? data as T : null;
+}
+
+/**
+ * Validasi message dari parent
+ * @returns Message yang sudah ter-type, atau null jika version/type/shape tidak dikenal
+ */
+export function parseParentMessage(data: unknown): ParentToGameMessage | null {
+  return parseMessage<ParentToGameMessage>(data, PARENT_MESSAGE_CHECKS);
+}
+
+/**
+ * Validasi message dari game (untuk host page)
+ * @returns Message yang sudah ter-type, atau null jika version/type/shape tidak dikenal
+ */
+export function parseGameMessage(data: unknown): GameToParentMessage | null {
+  return parseMessage<GameToParentMessage>(data, GAME_MESSAGE_CHECKS);
+}
+
+/**
+ * Cek origin terhadap allowlist
+ * Entry bisa exact ("https://app.example.com") atau pakai wildcard "*" untuk satu
+ * segment host/port ("https://*.example.com", "http://localhost:*")
+ */
+export function isOriginAllowed(origin: string, allowlist: readonly string[]): boolean {
+  return allowlist.some(pattern => {
+    if (!pattern.includes('*')) {
+      return pattern === origin;
+    }
+    const source = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[A-Za-z0-9-]+');
+    return new RegExp(`^${source}$`).test(origin);
+  });
+}
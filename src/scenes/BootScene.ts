@@ -0,0 +1,32 @@
+import Phaser from 'phaser';
+import { AssetLoader } from '../managers/AssetLoader';
+import { ASSET_PATHS } from '../config/constants';
+
+/**
+ * BootScene - Load asset manifest dan background untuk loading screen, lalu ke PreloadScene
+ * Dipakai lagi saat player menekan Retry di loading screen (file yang sudah ada di cache di-skip)
+ */
+export class BootScene extends Phaser.Scene {
+  constructor() {
+    super({ key: 'BootScene' });
+  }
+
+  preload(): void {
+    const assetLoader = new AssetLoader(this);
+
+    // Background dari base pack agar loading screen tidak kosong
+    if (assetLoader.getManifest()) {
+      assetLoader.queueBaseImage('background');
+      return;
+    }
+
+    assetLoader.loadManifest(ASSET_PATHS.ASSET_MANIFEST);
+    this.load.once('filecomplete-json-assetManifest', () => {
+      assetLoader.queueBaseImage('background');
+    });
+  }
+
+  create(): void {
+    this.scene.start('PreloadScene');
+  }
+}
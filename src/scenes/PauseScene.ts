@@ -0,0 +1,132 @@
+import Phaser from 'phaser';
+import { PausePage, PauseSceneData } from '../types';
+import { GAME_CONSTANTS } from '../config/constants';
+import {
+  getOverlayLayout,
+  createOverlayBackdrop,
+  createOverlayPanel,
+  createOverlayText,
+  createOverlayButton
+} from '../managers/OverlayUI';
+
+/**
+ * PauseScene - Overlay pause di atas TetrisScene (board di-blur oleh TetrisScene, di-dim di sini)
+ *
+ * Menu: Resume, Restart, Audio on/off dan How to Play (cara main + key bindings, tap row untuk remap).
+ * Scene ini hanya UI, state pause tetap di TetrisScene (pauseGame / resumeGame menutup & membuka scene ini).
+ */
+export class PauseScene extends Phaser.Scene {
+  private pauseData!: PauseSceneData;
+  private page: PausePage = 'menu';
+  private isMuted: boolean = false;
+  private panel?: Phaser.GameObjects.Container;
+
+  constructor() {
+    super({ key: 'PauseScene' });
+  }
+
+  init(data: PauseSceneData): void {
+    this.pauseData = data;
+    this.page = data.page;
+    this.isMuted = data.isMuted;
+  }
+
+  create(): void {
+    // Dim + blok tap ke board di belakang
+    createOverlayBackdrop(this, GAME_CONSTANTS.PAUSE_DIM_ALPHA);
+
+    this.showPage(this.page);
+  }
+
+  private showPage(page: PausePage): void {
+    this.page = page;
+    this.panel?.destroy();
+
+    const content = page === 'menu' ? this.createMenu() : this.createHowToPlay();
+    this.panel = createOverlayPanel(this, content.objects, content.height);
+  }
+
+  private createMenu(): { objects: Phaser.GameObjects.GameObject[]; height: number } {
+    const layout = getOverlayLayout();
+    const objects: Phaser.GameObjects.GameObject[] = [];
+    let y = layout.padding;
+
+    const title = createOverlayText(this, 0, y, 'Paused', 22, '#ffffff', 'bold').setOrigin(0.5, 0);
+    objects.push(title);
+    y += title.height + layout.padding;
+
+    const buttons: { text: string; primary: boolean; onClick: () => void }[] = [
+      { text: 'Resume', primary: true, onClick: () => this.pauseData.onResume() },
+      { text: 'Restart', primary: false, onClick: () => this.pauseData.onRestart() },
+      { text: `Audio: ${this.isMuted ? 'Off' : 'On'}`, primary: false, onClick: () => this.toggleMute() },
+      { text: 'How to Play', primary: false, onClick: () => this.showPage('howToPlay') }
+    ];
+
+    buttons.forEach(button => {
+      objects.push(...createOverlayButton(this, 0, y + layout.buttonHeight / 2, layout.width - layout.padding * 2, layout.buttonHeight, button.text, button.primary, button.onClick).objects);
+      y += layout.buttonHeight + layout.padding / 2;
+    });
+
+    return { objects, height: y + layout.padding / 2 };
+  }
+
+  private createHowToPlay(): { objects: Phaser.GameObjects.GameObject[]; height: number } {
+    const layout = getOverlayLayout();
+    const objects: Phaser.GameObjects.GameObject[] = [];
+    const left = -layout.width / 2 + layout.padding;
+    const right = layout.width / 2 - layout.padding;
+    let y = layout.padding;
+
+    const title = createOverlayText(this, 0, y, 'How to Play', 22, '#ffffff', 'bold').setOrigin(0.5, 0);
+    y += title.height + layout.padding / 2;
+
+    const instruction = createOverlayText(this, 0, y, this.pauseData.instruction, 15, '#ffd54f', '600')
+      .setOrigin(0.5, 0)
+      .setAlign('center')
+      .setWordWrapWidth(layout.width - layout.padding * 2);
+    y += instruction.height + layout.padding / 2;
+
+    const howToPlay = createOverlayText(this, 0, y, this.pauseData.getHowToPlay().join('\n'), 13, '#ffffffcc')
+      .setOrigin(0.5, 0)
+      .setAlign('center')
+      .setWordWrapWidth(layout.width - layout.padding * 2);
+    y += howToPlay.height + layout.padding;
+
+    const controlsTitle = createOverlayText(this, 0, y, 'Keyboard (tap to remap)', 15, '#ffffff', 'bold').setOrigin(0.5, 0);
+    y += controlsTitle.height + layout.padding / 2;
+    objects.push(title, instruction, howToPlay, controlsTitle);
+
+    this.pauseData.getControls().forEach((row, index) => {
+      const rowY = y + layout.rowHeight / 2;
+
+      const hitArea = this.add.rectangle(0, rowY, layout.width - layout.padding, layout.rowHeight - 2, 0xffffff, 0.08);
+      hitArea.setInteractive({ useHandCursor: true });
+
+      const label = createOverlayText(this, left, rowY, row.label, 15, '#ffffff').setOrigin(0, 0.5);
+      const value = createOverlayText(this, right, rowY, row.value, 15, '#ffd54f', '600').setOrigin(1, 0.5);
+
+      // Tap row lalu tekan key baru (Esc = batal), halaman di-render ulang setelah selesai
+      hitArea.on('pointerdown', () => {
+        value.setText('Press a key...');
+        this.pauseData.onRemap(index, () => {
+          if (this.scene.isActive()) this.showPage('howToPlay');
+        });
+      });
+
+      objects.push(hitArea, label, value);
+      y += layout.rowHeight;
+    });
+    y += layout.padding;
+
+    objects.push(...createOverlayButton(this, 0, y + layout.buttonHeight / 2, layout.width - layout.padding * 2, layout.buttonHeight, 'Back', true, () => this.showPage('menu')).objects);
+    y += layout.buttonHeight + layout.padding;
+
+    return { objects, height: y };
+  }
+
+  private toggleMute(): void {
+    this.isMuted = !this.isMuted;
+    this.pauseData.onMuteToggle(this.isMuted);
+    this.showPage('menu');
+  }
+}
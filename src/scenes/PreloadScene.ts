@@ -0,0 +1,181 @@
+import Phaser from 'phaser';
+import { AssetLoader } from '../managers/AssetLoader';
+import { loadShapeTextures } from '../managers/ShapeTextures';
+import { ParentBridge } from '../protocol/ParentBridge';
+import { LoadProgressMessage } from '../protocol/messages';
+import { GAME_CONSTANTS } from '../config/constants';
+
+/**
+ * PreloadScene - Load base pack dari asset manifest dengan progress bar, lalu start TetrisScene
+ *
+ * Progress dikirim ke parent sebagai LOAD_PROGRESS. Jika data wajib (manifest, shape_data,
+ * gameplay_config, countdown animation) gagal di-load atau tidak valid (mis. shape_data tanpa shape
+ * valid), tampilkan error screen dengan tombol Retry.
+ * Asset lain yang gagal tidak memblok game, dilaporkan oleh AssetLoader.reportMissing.
+ */
+export class PreloadScene extends Phaser.Scene {
+  private assetLoader!: AssetLoader;
+  private parentBridge!: ParentBridge;
+  private progressBar!: Phaser.GameObjects.Graphics;
+  private progressText!: Phaser.GameObjects.Text;
+  private failedFiles: string[] = [];
+  private lastSentPercent: number = -1;
+
+  constructor() {
+    super({ key: 'PreloadScene' });
+  }
+
+  preload(): void {
+    this.assetLoader = new AssetLoader(this);
+    this.parentBridge = new ParentBridge(GAME_CONSTANTS.ALLOWED_PARENT_ORIGINS);
+    this.failedFiles = [];
+    this.lastSentPercent = -1;
+
+    this.createLoadingScreen();
+
+    this.load.on('progress', (value: number) => this.updateProgress(value));
+    this.load.on('loaderror', (file: Phaser.Loader.File) => {
+      console.error(`Failed to load ${file.type} "${file.key}" from ${file.src}`);
+      this.failedFiles.push(file.key);
+    });
+
+    this.assetLoader.queueBasePack();
+
+    // Shape art di-queue dari isi shape_data.json (texture key dari shape_name)
+    const cachedShapeData = this.cache.json.get('shapeData');
+    if (cachedShapeData) {
+      loadShapeTextures(this.load, cachedShapeData);
+    } else {
+      this.load.once('filecomplete-json-shapeData', (_key: string, _type: string, data: unknown) => {
+        loadShapeTextures(this.load, data);
+      });
+    }
+  }
+
+  create(): void {
+    const missingData = this.assetLoader.getMissingData();
+    if (missingData.length > 0) {
+      this.sendProgress('error', this.load.progress, [...new Set([...this.failedFiles, ...missingData])]);
+      this.showErrorScreen(missingData);
+      return;
+    }
+
+    this.sendProgress('complete', 1, this.failedFiles);
+    this.scene.start('TetrisScene');
+  }
+
+  /**
+   * Background, label dan progress bar di tengah layar
+   */
+  private createLoadingScreen(): void {
+    const centerX = GAME_CONSTANTS.CANVAS_WIDTH / 2;
+    const centerY = GAME_CONSTANTS.CANVAS_HEIGHT / 2;
+
+    if (this.textures.exists('background')) {
+      const bg = this.add.image(centerX, centerY, 'background');
+      bg.setScale(Math.max(GAME_CONSTANTS.CANVAS_WIDTH / bg.width, GAME_CONSTANTS.CANVAS_HEIGHT / bg.height));
+    }
+
+    const barWidth = GAME_CONSTANTS.LOADING_BAR_WIDTH;
+    const barHeight = GAME_CONSTANTS.LOADING_BAR_HEIGHT;
+
+    // Track
+    const track = this.add.graphics();
+    track.fillStyle(0xffffff, 0.2);
+    track.fillRoundedRect(centerX - barWidth / 2, centerY - barHeight / 2, barWidth, barHeight, barHeight / 2);
+
+    this.progressBar = this.add.graphics();
+
+    this.add.text(centerX, centerY - barHeight * 2, 'Loading', {
+      fontFamily: GAME_CONSTANTS.FONT_FAMILY,
+      fontSize: Math.floor(18 * GAME_CONSTANTS.SCALE_FACTOR) + 'px',
+      color: '#ffffff',
+      fontStyle: '700'
+    }).setOrigin(0.5, 1).setResolution(2);
+
+    this.progressText = this.add.text(centerX, centerY + barHeight * 1.5, '0%', {
+      fontFamily: GAME_CONSTANTS.FONT_FAMILY,
+      fontSize: Math.floor(14 * GAME_CONSTANTS.SCALE_FACTOR) + 'px',
+      color: '#ffffff'
+    }).setOrigin(0.5, 0).setResolution(2);
+  }
+
+  private updateProgress(value: number): void {
+    const barWidth = GAME_CONSTANTS.LOADING_BAR_WIDTH;
+    const barHeight = GAME_CONSTANTS.LOADING_BAR_HEIGHT;
+    const left = GAME_CONSTANTS.CANVAS_WIDTH / 2 - barWidth / 2;
+    const top = GAME_CONSTANTS.CANVAS_HEIGHT / 2 - barHeight / 2;
+
+    // Gradient dari warna brand, hanya fillRect yang mendukung gradient
+    this.progressBar.clear();
+    this.progressBar.fillGradientStyle(
+      GAME_CONSTANTS.LOADING_BAR_COLOR_START,
+      GAME_CONSTANTS.LOADING_BAR_COLOR_END,
+      GAME_CONSTANTS.LOADING_BAR_COLOR_START,
+      GAME_CONSTANTS.LOADING_BAR_COLOR_END,
+      1
+    );
+    this.progressBar.fillRect(left, top, Math.max(barWidth * value, 1), barHeight);
+
+    const percent = Math.floor(value * 100);
+    this.progressText.setText(`${percent}%`);
+
+    // Kirim ke parent hanya saat persen berubah
+    if (percent !== this.lastSentPercent) {
+      this.lastSentPercent = percent;
+      this.sendProgress('loading', value, this.failedFiles);
+    }
+  }
+
+  private sendProgress(status: LoadProgressMessage['status'], progress: number, failed: string[]): void {
+    this.parentBridge.send({
+      type: 'LOAD_PROGRESS',
+      status,
+      progress,
+      loaded: this.load.totalComplete,
+      total: this.load.totalToLoad,
+      failed: [...failed],
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Error screen: pesan, daftar data yang gagal, dan tombol Retry (load ulang dari BootScene)
+   */
+  private showErrorScreen(missingData: string[]): void {
+    const centerX = GAME_CONSTANTS.CANVAS_WIDTH / 2;
+    const centerY = GAME_CONSTANTS.CANVAS_HEIGHT / 2;
+    const scale = GAME_CONSTANTS.SCALE_FACTOR;
+
+    this.children.removeAll(true);
+    this.add.rectangle(centerX, centerY, GAME_CONSTANTS.CANVAS_WIDTH, GAME_CONSTANTS.CANVAS_HEIGHT, 0x000000, 0.85);
+
+    this.add.text(centerX, centerY - 60 * scale, "Couldn't load the game", {
+      fontFamily: GAME_CONSTANTS.FONT_FAMILY,
+      fontSize: Math.floor(20 * scale) + 'px',
+      color: '#ffffff',
+      fontStyle: '700'
+    }).setOrigin(0.5).setResolution(2);
+
+    this.add.text(centerX, centerY - 25 * scale, `Check your connection and try again.\nMissing: ${missingData.join(', ')}`, {
+      fontFamily: GAME_CONSTANTS.FONT_FAMILY,
+      fontSize: Math.floor(13 * scale) + 'px',
+      color: '#ffffffcc',
+      align: 'center',
+      wordWrap: { width: GAME_CONSTANTS.LOADING_BAR_WIDTH }
+    }).setOrigin(0.5, 0).setResolution(2);
+
+    const buttonWidth = 140 * scale;
+    const buttonHeight = 44 * scale;
+    const button = this.add.rectangle(centerX, centerY + 60 * scale, buttonWidth, buttonHeight, GAME_CONSTANTS.LOADING_BAR_COLOR_END);
+    button.setInteractive({ useHandCursor: true });
+    button.on('pointerdown', () => this.scene.start('BootScene'));
+
+    this.add.text(button.x, button.y, 'Retry', {
+      fontFamily: GAME_CONSTANTS.FONT_FAMILY,
+      fontSize: Math.floor(16 * scale) + 'px',
+      color: '#ffffff',
+      fontStyle: '700'
+    }).setOrigin(0.5).setResolution(2);
+  }
+}
@@ -0,0 +1,181 @@
+import Phaser from 'phaser';
+import { GameResult, ResultsSceneData } from '../types';
+import {
+  getOverlayLayout,
+  createOverlayBackdrop,
+  createOverlayPanel,
+  createOverlayText,
+  createOverlayButton
+} from '../managers/OverlayUI';
+
+// Maksimal skill yang ditulis di panel, sisanya jadi "+N more"
+const MAX_LISTED_SKILLS = 12;
+
+/**
+ * ResultsScene - Ringkasan session setelah game over, di-launch di atas TetrisScene
+ *
+ * Play Again memulai game baru tanpa parent (standalone), Share memakai Web Share API
+ * dengan screenshot play area, atau download screenshot jika share tidak tersedia.
+ * Parent tetap bisa kirim restart/replay, TetrisScene.startGame menutup scene ini.
+ */
+export class ResultsScene extends Phaser.Scene {
+  private result!: GameResult;
+  private screenshot: string | null = null;
+  private onPlayAgain: () => void = () => {};
+  private shareFile: File | null = null;
+  private shareLabel!: Phaser.GameObjects.Text;
+
+  constructor() {
+    super({ key: 'ResultsScene' });
+  }
+
+  init(data: ResultsSceneData): void {
+    this.result = data.result;
+    this.screenshot = data.screenshot;
+    this.onPlayAgain = data.onPlayAgain;
+    this.shareFile = null;
+  }
+
+  create(): void {
+    const layout = getOverlayLayout();
+    const { width, padding } = layout;
+
+    // Backdrop blok tap ke TetrisScene di belakang
+    createOverlayBackdrop(this, 0.6);
+
+    const content: Phaser.GameObjects.GameObject[] = [];
+    let y = padding;
+
+    const title = createOverlayText(this, 0, y, this.result.endReason === 'timer' ? "Time's up!" : 'Board full!', 22, '#ffffff', 'bold')
+      .setOrigin(0.5, 0);
+    y += title.height;
+
+    const score = createOverlayText(this, 0, y, `${this.result.score}`, 40, '#ffd54f', '800').setOrigin(0.5, 0);
+    y += score.height + padding / 2;
+    content.push(title, score);
+
+    this.getSummaryRows().forEach(row => {
+      const rowY = y + layout.rowHeight / 2;
+      content.push(
+        createOverlayText(this, -width / 2 + padding, rowY, row.label, 15, '#ffffff').setOrigin(0, 0.5),
+        createOverlayText(this, width / 2 - padding, rowY, row.value, 15, '#ffd54f', '600').setOrigin(1, 0.5)
+      );
+      y += layout.rowHeight;
+    });
+
+    const skills = createOverlayText(this, 0, y + padding / 2, this.getSkillsText(), 13, '#ffffffcc')
+      .setOrigin(0.5, 0)
+      .setAlign('center')
+      .setWordWrapWidth(width - padding * 2);
+    y += skills.height + padding * 1.5;
+    content.push(skills);
+
+    // Tombol Play Again & Share berdampingan
+    const buttonWidth = (width - padding * 3) / 2;
+    const buttonY = y + layout.buttonHeight / 2;
+    const playAgain = createOverlayButton(this, -(buttonWidth + padding) / 2, buttonY, buttonWidth, layout.buttonHeight, 'Play Again', true, () => this.playAgain());
+    const share = createOverlayButton(this, (buttonWidth + padding) / 2, buttonY, buttonWidth, layout.buttonHeight, 'Share', false, () => this.share());
+    this.shareLabel = share.label;
+    content.push(...playAgain.objects, ...share.objects);
+    y += layout.buttonHeight + padding;
+
+    // Panel di-center vertikal, tinggi mengikuti isi
+    createOverlayPanel(this, content, y);
+
+    this.input.keyboard?.once('keydown-ENTER', () => this.playAgain());
+
+    // File dibuat di awal agar navigator.share dipanggil langsung dari tap (user activation)
+    if (this.screenshot) {
+      this.createScreenshotFile(this.screenshot).then(file => {
+        this.shareFile = file;
+      });
+    }
+  }
+
+  private getSummaryRows(): { label: string; value: string }[] {
+    const result = this.result;
+    const minutes = Math.floor(result.timeUsed / 60);
+    const seconds = Math.floor(result.timeUsed % 60);
+
+    return [
+      { label: 'Skills placed', value: `${this.getPlacedSkills().length}` },
+      { label: 'Pieces used', value: `${result.locked.length}` },
+      { label: 'Fill rate', value: `${Math.round(result.fillPercentage)}%` },
+      { label: 'Skips / Switches', value: `${result.skipped.length} / ${result.switched.length}` },
+      { label: 'Time', value: `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}` }
+    ];
+  }
+
+  /**
+   * Label unik dari piece yang di-lock, urut sesuai waktu lock
+   */
+  private getPlacedSkills(): string[] {
+    const labels = this.result.locked.flatMap(piece => piece.labels).filter(label => label !== '');
+    return [...new Set(labels)];
+  }
+
+  private getSkillsText(): string {
+    const skills = this.getPlacedSkills();
+    if (skills.length === 0) return 'No skills placed';
+
+    const listed = skills.slice(0, MAX_LISTED_SKILLS).join(' · ');
+    const more = skills.length - MAX_LISTED_SKILLS;
+    return more > 0 ? `${listed} +${more} more` : listed;
+  }
+
+  private playAgain(): void {
+    this.scene.stop();
+    this.onPlayAgain();
+  }
+
+  /**
+   * Share screenshot + ringkasan (Web Share API), fallback download screenshot
+   */
+  private async share(): Promise<void> {
+    const text = `I placed ${this.getPlacedSkills().length} skills and scored ${this.result.score} in WSG Tetris!`;
+    const file = this.shareFile;
+
+    try {
+      if (file && navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], text });
+        return;
+      }
+      if (navigator.share) {
+        await navigator.share({ text });
+        return;
+      }
+    } catch (error) {
+      // Share sheet ditutup player
+      if ((error as DOMException).name === 'AbortError') return;
+      console.warn('Share failed:', error);
+    }
+
+    if (this.screenshot) {
+      const link = document.createElement('a');
+      link.href = this.screenshot;
+      link.download = `wsg-tetris-${this.result.seed}.png`;
+      link.click();
+      this.setShareLabel('Saved');
+    } else {
+      this.setShareLabel('Unavailable');
+    }
+  }
+
+  private async createScreenshotFile(dataUrl: string): Promise<File | null> {
+    try {
+      const blob = await (await fetch(dataUrl)).blob();
+      return new File([blob], `wsg-tetris-${this.result.seed}.png`, { type: 'image/png' });
+    } catch (error) {
+      console.warn('Screenshot could not be converted for sharing:', error);
+      return null;
+    }
+  }
+
+  private setShareLabel(text: string): void {
+    // Scene bisa sudah ditutup (restart dari parent) saat share selesai
+    if (!this.scene.isActive()) return;
+
+    this.shareLabel.setText(text);
+    this.time.delayedCall(1500, () => this.shareLabel.setText('Share'));
+  }
+}
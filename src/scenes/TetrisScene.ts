@@ -4,8 +4,25 @@ import { ShapeManager } from '../managers/ShapeManager';
 import { TetrominoRenderer } from '../managers/TetrominoRenderer';
 import { GameBoard } from '../managers/GameBoard';
 import { UIManager } from '../managers/UIManager';
-import { Tetromino, ShapeData, GameConfig, GameplayConfig } from '../types';
-import { GAME_CONSTANTS, ASSET_PATHS } from '../config/constants';
+import { ScoreManager } from '../managers/ScoreManager';
+import { LevelManager } from '../managers/LevelManager';
+import { InputRecorder } from '../managers/InputRecorder';
+import { ReplayPlayer } from '../managers/ReplayPlayer';
+import { KeyboardController } from '../managers/KeyboardController';
+import { GestureController } from '../managers/GestureController';
+import { GamepadController } from '../managers/GamepadController';
+import { createMissingShapeTextures } from '../managers/ShapeTextures';
+import { AssetLoader } from '../managers/AssetLoader';
+import { GameResultTracker } from '../core/GameResultTracker';
+import { createRotationSystem } from '../core/RotationSystem';
+import { createRandomizer } from '../core/Randomizer';
+import { LockDelay } from '../core/LockDelay';
+import { ParentBridge } from '../protocol/ParentBridge';
+import { ParentToGameMessage, GameInitConfig } from '../protocol/messages';
+import { parseUrlConfig, mergeInitConfig } from '../config/sessionConfig';
+import { Tetromino, GameConfig, GameplayConfig, PlayerAction, SessionSettings, InputRecording, GameEndReason, KeyAction, InputDevice, GameResult, ResultsSceneData, PausePage, PauseSceneData } from '../types';
+import { GAME_CONSTANTS } from '../config/constants';
+import { SeededRandom } from '../core/SeededRandom';
 
 /**
  * TetrisScene - Main game scene
@@ -16,22 +33,65 @@ export class TetrisScene extends Phaser.Scene {
   private tetrominoRenderer!: TetrominoRenderer;
   private gameBoard!: GameBoard;
   private uiManager!: UIManager;
+  private scoreManager!: ScoreManager;
+  private levelManager!: LevelManager;
+  private inputRecorder!: InputRecorder;
+  private replayPlayer!: ReplayPlayer;
+  private keyboardController!: KeyboardController;
+  private gestureController!: GestureController;
+  private gamepadController!: GamepadController;
+  private activeInputDevice: InputDevice = 'touch';
+  private parentBridge!: ParentBridge;
+  private assetLoader!: AssetLoader;
+  private resultTracker!: GameResultTracker;
+  private lockDelay!: LockDelay;
 
   // Game state
   private currentTetromino: Tetromino | null = null;
   private nextTetrominos: Tetromino[] = [];
   private nextPreviewContainers: Phaser.GameObjects.Container[] = [];
 
+  // Hold slot (special_tag "hold"): satu piece disimpan bersama labels-nya, sekali per drop
+  private heldTetromino: Tetromino | null = null;
+  private canHold: boolean = true;
+  private holdPreviewContainer: Phaser.GameObjects.Container | null = null;
+
   // Explorer mode (prediction)
   private isExplorerMode: boolean = false;
 
+  // Line clearing (special_tag "line_clear")
+  private isLineClearEnabled: boolean = false;
+  private isTapToPlaceEnabled: boolean = false;
+  private isRotateEnabled: boolean = false;
+  private isHoldEnabled: boolean = false;
+  private isGhostEnabled: boolean = false;
+
+  // Seed untuk piece & label generation
+  // seedOverride dari ?seed= atau parent message; null = seed baru tiap game
+  private seedOverride: number | null = null;
+  private currentSeed: number = 0;
+
   // Gameplay config
   private gameplayConfigs: GameplayConfig[] = [];
   private currentGameplayConfig: GameplayConfig | null = null;
 
+  // Session settings (mode, timer, skills) - liveSession disimpan selama replay
+  private session!: SessionSettings;
+  private liveSession: SessionSettings | null = null;
+
+  // INIT handshake dengan parent
+  private pendingInit: ((initConfig: GameInitConfig) => void) | null = null;
+  private isSessionReady: boolean = false;
+
   // BOARD_X: 20, // (393 - 353) / 2 = 20px for centering
   // BOARD_Y: 319, // Position to have 136px distance from bottom (852 - 397 - 136)
 
+  // Ukuran grid dari mode aktif (grid_width / grid_height), diterapkan ke config saat game start
+  private modeGridSize: { width: number; height: number } = {
+    width: GAME_CONSTANTS.GRID_WIDTH,
+    height: GAME_CONSTANTS.GRID_HEIGHT
+  };
+
   // Game config
   private config: GameConfig = {
     tileSize: GAME_CONSTANTS.TILE_SIZE,
@@ -42,10 +102,13 @@ export class TetrisScene extends Phaser.Scene {
   };
 
   // Game timing
+  private tick: number = 0; // Jumlah fixed tick sejak game mulai
+  private tickAccumulator: number = 0;
   private dropTimer: number = 0;
   private dropInterval: number = GAME_CONSTANTS.DROP_INTERVAL;
   private isGameActive: boolean = false;
   private isPaused: boolean = false;
+  private pauseBlur: Phaser.FX.Blur | null = null; // Blur board selama pause overlay terbuka
   private gameTimer: number = GAME_CONSTANTS.COUNTDOWN_DURATION;
   private constGameTime: number = GAME_CONSTANTS.COUNTDOWN_DURATION;
 
@@ -71,99 +134,38 @@ export class TetrisScene extends Phaser.Scene {
     super({ key: 'TetrisScene' });
   }
 
-  /**
-   * Preload - Load semua assets
-   */
-  preload(): void {
-    // Load background
-    this.load.image('background', ASSET_PATHS.BACKGROUND);
-
-    // Load panel play area - will be loaded dynamically after reading config
-
-    // Load profile placeholder
-    this.load.image('profile', ASSET_PATHS.PROFILE);
-
-    // Load timer background
-    this.load.image('timer_bg', ASSET_PATHS.TIMER_BG);
-
-    // Load header background
-    this.load.image('header_bg', ASSET_PATHS.HEADER_BG);
-
-    // Load control buttons
-    this.load.image('button_skip', ASSET_PATHS.BUTTONS.SKIP);
-    this.load.image('button_switch', ASSET_PATHS.BUTTONS.SWITCH);
-    this.load.image('button_left', ASSET_PATHS.BUTTONS.LEFT);
-    this.load.image('button_right', ASSET_PATHS.BUTTONS.RIGHT);
-    this.load.image('button_down', ASSET_PATHS.BUTTONS.DOWN);
-    this.load.image('button_rotate', ASSET_PATHS.BUTTONS.ROTATE);
-    this.load.image('button_mute', ASSET_PATHS.BUTTONS.MUTE);
-    this.load.image('button_unmute', ASSET_PATHS.BUTTONS.UNMUTE);
-    this.load.image('button_info', ASSET_PATHS.BUTTONS.INFO);
-
-    // Load shape data JSON
-    this.load.json('shapeData', ASSET_PATHS.DATA.SHAPES);
-    this.load.json('gameplayConfig', ASSET_PATHS.DATA.GAMEPLAY_CONFIG);
-
-    // Load Lottie animation for countdown
-    this.load.json('countdownAnimation', 'animation/Countdown.json');
-
-    // Load shape images - color versions
-    this.load.image('shape_i_color', ASSET_PATHS.SHAPES_COLOR.I);
-    this.load.image('shape_j_color', ASSET_PATHS.SHAPES_COLOR.J);
-    this.load.image('shape_l_color', ASSET_PATHS.SHAPES_COLOR.L);
-    this.load.image('shape_o_color', ASSET_PATHS.SHAPES_COLOR.O);
-    this.load.image('shape_s_color', ASSET_PATHS.SHAPES_COLOR.S);
-    this.load.image('shape_t_color', ASSET_PATHS.SHAPES_COLOR.T);
-    this.load.image('shape_z_color', ASSET_PATHS.SHAPES_COLOR.Z);
-
-    // Load shape images - outline versions
-    this.load.image('shape_i_outline', ASSET_PATHS.SHAPES_OUTLINE.I);
-    this.load.image('shape_j_outline', ASSET_PATHS.SHAPES_OUTLINE.J);
-    this.load.image('shape_l_outline', ASSET_PATHS.SHAPES_OUTLINE.L);
-    this.load.image('shape_o_outline', ASSET_PATHS.SHAPES_OUTLINE.O);
-    this.load.image('shape_s_outline', ASSET_PATHS.SHAPES_OUTLINE.S);
-    this.load.image('shape_t_outline', ASSET_PATHS.SHAPES_OUTLINE.T);
-    this.load.image('shape_z_outline', ASSET_PATHS.SHAPES_OUTLINE.Z);
-
-    // Load shape images - prediction versions
-    this.load.image('shape_i_prediction', ASSET_PATHS.SHAPES_PREDICTION.I);
-    this.load.image('shape_j_prediction', ASSET_PATHS.SHAPES_PREDICTION.J);
-    this.load.image('shape_l_prediction', ASSET_PATHS.SHAPES_PREDICTION.L);
-    this.load.image('shape_o_prediction', ASSET_PATHS.SHAPES_PREDICTION.O);
-    this.load.image('shape_s_prediction', ASSET_PATHS.SHAPES_PREDICTION.S);
-    this.load.image('shape_t_prediction', ASSET_PATHS.SHAPES_PREDICTION.T);
-    this.load.image('shape_z_prediction', ASSET_PATHS.SHAPES_PREDICTION.Z);
-
-    // Load audio files
-    this.load.audio('blockSfx', ASSET_PATHS.AUDIO.BLOCK_SFX);
-  }
-
   /**
    * Create - Initialize game
+   * Base assets sudah di-load oleh PreloadScene, pack mode di-load di initializeSession
    */
   create(): void {
-    // Calculate actual grid size
-    const actualGridWidth = GAME_CONSTANTS.GRID_WIDTH * this.config.tileSize;
-    const actualGridHeight = GAME_CONSTANTS.GRID_HEIGHT * this.config.tileSize;
-
-    // Calculate centering offsets within play area
-    const horizontalOffset = (GAME_CONSTANTS.PLAY_AREA_WIDTH - actualGridWidth) / 2;
-    const verticalOffset = (GAME_CONSTANTS.PLAY_AREA_HEIGHT - actualGridHeight) / 2;
-
-    // Update board position: center play area + centering offset for grid
-    this.config.boardX = (this.cameras.main.width - GAME_CONSTANTS.PLAY_AREA_WIDTH) / 2 + horizontalOffset;
-    this.config.boardY = (GAME_CONSTANTS.PLAY_AREA_TOP_MARGIN + (GAME_CONSTANTS.MAX_TETROMINO_HEIGHT * this.config.tileSize * GAME_CONSTANTS.PREVIEW_SCALE / 2)) + verticalOffset;
+    this.assetLoader = new AssetLoader(this);
 
+    // Board position & tile size untuk grid default (mode bisa ganti ukuran grid, lihat applyGridSize)
+    Object.assign(this.config, this.computeBoardLayout(this.config.gridWidth, this.config.gridHeight));
 
     // Initialize managers
     this.shapeManager = new ShapeManager();
     this.tetrominoRenderer = new TetrominoRenderer(this, this.config);
     this.gameBoard = new GameBoard(this, this.config);
     this.uiManager = new UIManager(this, this.config);
+    this.scoreManager = new ScoreManager();
+    this.levelManager = new LevelManager();
+    this.inputRecorder = new InputRecorder();
+    this.replayPlayer = new ReplayPlayer();
+    this.keyboardController = new KeyboardController(this, action => this.handleDeviceAction('keyboard', action));
+    this.gamepadController = new GamepadController(
+      this,
+      action => this.handleDeviceAction('gamepad', action),
+      () => this.togglePauseFromGamepad()
+    );
+    this.parentBridge = new ParentBridge(GAME_CONSTANTS.ALLOWED_PARENT_ORIGINS);
+    this.resultTracker = new GameResultTracker();
+    this.lockDelay = new LockDelay();
 
     // Load shape and gameplay data
-    const shapeData = this.cache.json.get('shapeData') as ShapeData[];
-    const gameplayConfigData = this.cache.json.get('gameplayConfig') as GameplayConfig[];
+    const shapeData = this.cache.json.get('shapeData');
+    const gameplayConfigData = (this.cache.json.get('gameplayConfig') as GameplayConfig[] | undefined) || [];
 
     // Listen for scale resize to update board position
     // this.scale.on('resize', (gameSize: any) => {
@@ -172,94 +174,134 @@ export class TetrisScene extends Phaser.Scene {
     // });
 
     this.shapeManager.setShapeData(shapeData);
-    this.gameplayConfigs = gameplayConfigData;
 
-    // Get URL parameters
-    const urlParams = new URLSearchParams(window.location.search);
-    const typeParam = urlParams.get('type') || 'explorer'; // Default to explorer
-
-    // Get timer duration from query param or use default
-    const timerParam = urlParams.get('timer');
-    const timerDuration = timerParam ? parseInt(timerParam, 10) : GAME_CONSTANTS.COUNTDOWN_DURATION;
-    this.constGameTime = timerDuration;
-    this.gameTimer = timerDuration;
-
-    // Get username from query param or use default
-    const username = urlParams.get('username') || undefined;
-
-    // Get suggested_skills from query parameter
-    // Format: ?suggested_skills=%5B%22Agile%22%2C%22Adaptable%22%5D = ["Agile","Adaptable"]
-    const suggestedSkillsParam = urlParams.get('suggested_skills');
-    let suggestedSkills: string[] = [];
-    if (suggestedSkillsParam) {
-      try {
-        // Decode URL-encoded JSON array
-        suggestedSkills = JSON.parse(decodeURIComponent(suggestedSkillsParam));
-        console.log('Suggested skills loaded:', suggestedSkills);
-      } catch (e) {
-        console.error('Failed to parse suggested_skills parameter:', e);
-        console.log('Using fallback labels from shape_data.json');
-      }
+    // Tanpa shape valid tidak ada piece yang bisa di-spawn - jangan mulai session
+    // (PreloadScene sudah menahan ini dengan error screen, lihat AssetLoader.getMissingData)
+    if (!this.shapeManager.hasShapes()) {
+      return;
     }
 
-    // Get no_duplicates from query parameter
-    // Format: ?no_duplicates=%5B%22Adaptable%22%5D = ["Adaptable"]
-    const noDuplicatesParam = urlParams.get('no_duplicates');
-    let noDuplicates: string[] = [];
-    if (noDuplicatesParam) {
-      try {
-        // Decode URL-encoded JSON array
-        noDuplicates = JSON.parse(decodeURIComponent(noDuplicatesParam));
-        console.log('No duplicates loaded:', noDuplicates);
-      } catch (e) {
-        console.error('Failed to parse no_duplicates parameter:', e);
-      }
+    // Shape tanpa art (atau art gagal load) memakai texture procedural
+    createMissingShapeTextures(this, this.shapeManager.getShapeData());
+    this.gameplayConfigs = gameplayConfigData;
+
+    // Listen message dari parent iframe (INIT, restart, pause, ...)
+    this.setupParentMessageListener();
+
+    // Auto-pause saat tab disembunyikan atau window kehilangan focus
+    const autoPause = () => this.pauseGame();
+    this.game.events.on(Phaser.Core.Events.HIDDEN, autoPause);
+    this.game.events.on(Phaser.Core.Events.BLUR, autoPause);
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      this.game.events.off(Phaser.Core.Events.HIDDEN, autoPause);
+      this.game.events.off(Phaser.Core.Events.BLUR, autoPause);
+    });
+
+    // Tunggu config INIT dari parent, fallback ke URL parameters
+    this.waitForInit(initConfig => this.initializeSession(initConfig));
+  }
+
+  /**
+   * Kirim GAME_READY lalu tunggu INIT dari parent
+   * Callback dipanggil dengan null jika tidak di-embed atau INIT tidak datang sebelum timeout
+   */
+  private waitForInit(onResolved: (initConfig: GameInitConfig | null) => void): void {
+    if (!this.parentBridge.isEmbedded()) {
+      onResolved(null);
+      return;
     }
 
-    // Find current gameplay config based on URL parameter
-    this.currentGameplayConfig = this.gameplayConfigs.find(config => config.type === typeParam) || null;
+    const timeout = this.time.delayedCall(GAME_CONSTANTS.INIT_TIMEOUT, () => {
+      console.warn('No INIT received from parent, using URL parameters');
+      this.pendingInit = null;
+      onResolved(null);
+    });
 
-    // Set gameplay type ke ShapeManager untuk filter shape
-    this.shapeManager.setGameplayType(typeParam);
+    this.pendingInit = (initConfig: GameInitConfig) => {
+      timeout.remove();
+      this.pendingInit = null;
+      onResolved(initConfig);
+    };
+
+    this.parentBridge.send({
+      type: 'GAME_READY',
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Setup session dari config INIT (atau URL parameters), load play area, setup UI lalu start game
+   */
+  private initializeSession(initConfig: GameInitConfig | null): void {
+    const urlConfig = parseUrlConfig(window.location.search);
+    const config = initConfig ? mergeInitConfig(urlConfig, initConfig) : urlConfig;
+
+    const typeParam = config.gameplayType || 'explorer'; // Default to explorer
+    const timerDuration = config.timer ?? GAME_CONSTANTS.COUNTDOWN_DURATION;
 
-    // Set suggested skills from URL parameter
-    this.shapeManager.setSuggestedSkills(suggestedSkills);
+    // Seed (angka atau string, lihat SeededRandom.parseSeed)
+    this.seedOverride = SeededRandom.parseSeed(config.seed);
 
-    // Set no_duplicates from URL parameter
-    this.shapeManager.setNoDuplicates(noDuplicates);
+    // Find current gameplay config based on type
+    this.currentGameplayConfig = this.gameplayConfigs.find(gameplayConfig => gameplayConfig.type === typeParam) || null;
 
-    // Load play area image dynamically if specified, otherwise use default
-    const playAreaPath = this.currentGameplayConfig?.play_area || ASSET_PATHS.DEFAULT_PLAY_AREA;
+    // Apply session ke ShapeManager (gameplay type, suggested skills, no_duplicates) dan mode flags
+    this.applySession({
+      gameplayType: typeParam,
+      timer: timerDuration,
+      suggestedSkills: config.suggestedSkills || [],
+      noDuplicates: config.noDuplicates || []
+    });
 
-    // Start the scene when image loading is complete
-    this.load.image('panel', playAreaPath);
-    this.load.start();
+    // Load asset pack mode ini (play area dll), play_area di gameplay config tetap bisa override "panel"
+    const playAreaPath = this.currentGameplayConfig?.play_area;
+    const overrides = playAreaPath ? { images: { panel: playAreaPath } } : {};
 
     // Wait for loading to complete before setting up UI and starting game
-    this.load.once('complete', () => {
-      // Setup UI after image is loaded
-      this.uiManager.setupUI(this.currentGameplayConfig, username);
+    this.assetLoader.loadModePack(typeParam, () => {
+      window.tetrisMissingAssets = this.assetLoader.reportMissing();
 
-      // Check if prediction mode based on special_tag
-      this.isExplorerMode = this.currentGameplayConfig?.special_tag.includes('prediction') || false;
+      // Setup UI after image is loaded
+      this.uiManager.setupUI(this.currentGameplayConfig, config.username);
 
       // Setup button controls
       this.uiManager.setupButtonCallbacks({
-        onSkip: () => this.skipCurrentBlock(),
-        onSwitch: () => this.switchCurrentBlock(),
-        onLeft: () => this.moveLeft(),
-        onRight: () => this.moveRight(),
-        onDown: () => this.moveDown(),
-        onRotate: () => this.rotate(),
-        onDownPress: () => this.startSoftDrop(),
-        onDownRelease: () => this.stopSoftDrop()
+        onSkip: () => this.handlePlayerAction('skip'),
+        onSwitch: () => this.handlePlayerAction('switch'),
+        onLeft: () => this.handlePlayerAction('moveLeft'),
+        onRight: () => this.handlePlayerAction('moveRight'),
+        onDown: () => this.handlePlayerAction('moveDown'),
+        onRotate: () => this.handlePlayerAction('rotate'),
+        onDownPress: () => this.handlePlayerAction('softDropStart'),
+        onDownRelease: () => this.handlePlayerAction('softDropEnd'),
+        onHardDrop: () => this.handlePlayerAction('hardDrop')
       });
 
+      // Swipe/drag/tap di play area (tap = tap-to-place atau rotate, tergantung mode)
+      this.setupGestures();
+
       // Setup mute button callback
       this.uiManager.setupMuteCallback((isMuted: boolean) => {
         this.handleMuteToggle(isMuted);
       });
 
+      // Initial mute state dari config (parent tidak perlu dikabari)
+      if (config.muted) {
+        this.uiManager.setMuted(true);
+        this.sound.mute = true;
+      }
+
+      // Keyboard bindings & DAS/ARR dari config (remap user di localStorage tetap menang)
+      this.keyboardController.setBindings(config.keyboard?.bindings);
+      const das = config.keyboard?.das ?? GAME_CONSTANTS.KEYBOARD_DAS;
+      const arr = config.keyboard?.arr ?? GAME_CONSTANTS.KEYBOARD_ARR;
+      this.keyboardController.setRepeat(das, arr);
+      this.gamepadController.setRepeat(das, arr);
+
+      // Indicator input device; touch/klik di mana saja = touch
+      this.uiManager.setInputDevice(this.activeInputDevice);
+      this.input.on('pointerdown', () => this.setActiveInputDevice('touch'));
+
       // Setup info button callback - pauses game and notifies parent
       this.uiManager.setupInfoCallback(() => {
         this.handleInfoClick();
@@ -276,36 +318,335 @@ export class TetrisScene extends Phaser.Scene {
         console.log('Gravity:', this.isGameActive ? 'ON' : 'OFF');
       });
 
-      // Listen for restart message from parent iframe
-      this.setupParentMessageListener();
+      // Replay dari devtools (untuk support team): tetrisReplay(recording, speed)
+      window.tetrisReplay = (recording: InputRecording, speed?: number) => this.startReplay(recording, speed);
 
       // Start game
+      this.isSessionReady = true;
       this.startGame();
-    });
+    }, overrides);
+  }
+
+  /**
+   * Apply session settings ke ShapeManager, timer, dan mode flags
+   */
+  private applySession(session: SessionSettings): void {
+    this.session = session;
+    this.constGameTime = session.timer;
+    this.gameTimer = session.timer;
+
+    // Set gameplay type ke ShapeManager untuk filter shape
+    this.shapeManager.setGameplayType(session.gameplayType);
+
+    // Set suggested skills & no_duplicates
+    this.shapeManager.setSuggestedSkills(session.suggestedSkills);
+    this.shapeManager.setNoDuplicates(session.noDuplicates);
+
+    this.applyModeFlags(this.gameplayConfigs.find(config => config.type === session.gameplayType) || null);
+  }
+
+  /**
+   * Set feature flags berdasarkan special_tag dari gameplay config
+   */
+  private applyModeFlags(gameplayConfig: GameplayConfig | null): void {
+    // Check if prediction mode based on special_tag
+    this.isExplorerMode = gameplayConfig?.special_tag.includes('prediction') || false;
+
+    // Check if line clearing enabled based on special_tag
+    this.isLineClearEnabled = gameplayConfig?.special_tag.includes('line_clear') || false;
+
+    // Locked pieces per-cell sprites untuk special_tag "cell_render" (default: whole image)
+    this.gameBoard.setLockedRenderMode(
+      gameplayConfig?.special_tag.includes('cell_render') ? 'cells' : 'piece'
+    );
+
+    // Ghost piece (landing position) untuk special_tag "ghost"
+    this.isGhostEnabled = gameplayConfig?.special_tag.includes('ghost') || false;
+
+    // Tap-to-place untuk special_tag "tap_to_place"
+    this.isTapToPlaceEnabled = gameplayConfig?.special_tag.includes('tap_to_place') || false;
+
+    // Rotate (button, key dan tap gesture) untuk special_tag "rotate"
+    this.isRotateEnabled = gameplayConfig?.special_tag.includes('rotate') || false;
+
+    // Hold slot untuk special_tag "hold"
+    this.isHoldEnabled = gameplayConfig?.special_tag.includes('hold') || false;
+
+    // Rotation system per mode ("srs" dengan wall kicks atau "basic")
+    this.shapeManager.setRotationSystem(createRotationSystem(gameplayConfig?.rotation_system));
+
+    // Randomizer per mode ("gap", "bag" atau "weighted" dengan shape_weights)
+    this.shapeManager.setRandomizer(createRandomizer(gameplayConfig?.randomizer, gameplayConfig?.shape_weights));
+
+    // Scoring rules per mode
+    this.scoreManager.setRules(gameplayConfig?.scoring);
+
+    // Level & gravity curve per mode
+    this.levelManager.setRules(gameplayConfig?.gravity);
+
+    // Lock delay & batas move reset per mode
+    this.lockDelay.setRules(gameplayConfig?.lock_delay);
+
+    // Ukuran grid per mode, berlaku mulai game berikutnya (board di-resize di startGame)
+    this.modeGridSize = {
+      width: this.parseGridSize(gameplayConfig?.grid_width, GAME_CONSTANTS.GRID_WIDTH, 'grid_width'),
+      height: this.parseGridSize(gameplayConfig?.grid_height, GAME_CONSTANTS.GRID_HEIGHT, 'grid_height')
+    };
+
+    // Keyboard & gamepad: rotate/skip/switch/hold hanya aktif jika mode punya special_tag-nya (sama seperti button)
+    const optionalKeyActions: KeyAction[] = ['rotate', 'skip', 'switch', 'hold'];
+    const enabledKeyActions: KeyAction[] = [
+      'moveLeft', 'moveRight', 'softDrop', 'hardDrop',
+      ...optionalKeyActions.filter(action => gameplayConfig?.special_tag.includes(action))
+    ];
+    this.keyboardController.setEnabledActions(enabledKeyActions);
+    this.gamepadController.setEnabledActions(enabledKeyActions);
+  }
+
+  /**
+   * Ukuran grid dari gameplay config (bilangan bulat GRID_MIN_SIZE..GRID_MAX_SIZE, selain itu fallback / di-clamp)
+   */
+  private parseGridSize(value: number | undefined, fallback: number, field: string): number {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      console.warn(`Invalid ${field} "${value}", using ${fallback}`);
+      return fallback;
+    }
+
+    const size = Phaser.Math.Clamp(Math.round(value), GAME_CONSTANTS.GRID_MIN_SIZE, GAME_CONSTANTS.GRID_MAX_SIZE);
+    if (size !== value) {
+      console.warn(`${field} ${value} out of range, using ${size}`);
+    }
+    return size;
+  }
+
+  /**
+   * Tile size & posisi board untuk ukuran grid tertentu
+   * Tile size mengecil jika grid lebih besar dari default agar tetap muat di area grid default,
+   * lalu board di-center di play area panel (panel selalu di posisi yang sama)
+   */
+  private computeBoardLayout(gridWidth: number, gridHeight: number): Pick<GameConfig, 'tileSize' | 'boardX' | 'boardY'> {
+    const tileSize = Math.min(
+      GAME_CONSTANTS.TILE_SIZE,
+      Math.floor(GAME_CONSTANTS.TILE_SIZE * GAME_CONSTANTS.GRID_WIDTH / gridWidth),
+      Math.floor(GAME_CONSTANTS.TILE_SIZE * GAME_CONSTANTS.GRID_HEIGHT / gridHeight)
+    );
+
+    // Calculate actual grid size
+    const actualGridWidth = gridWidth * tileSize;
+    const actualGridHeight = gridHeight * tileSize;
+
+    // Calculate centering offsets within play area
+    const horizontalOffset = (GAME_CONSTANTS.PLAY_AREA_WIDTH - actualGridWidth) / 2;
+    const verticalOffset = (GAME_CONSTANTS.PLAY_AREA_HEIGHT - actualGridHeight) / 2;
+
+    // Board position: center play area + centering offset for grid
+    return {
+      tileSize,
+      boardX: (this.cameras.main.width - GAME_CONSTANTS.PLAY_AREA_WIDTH) / 2 + horizontalOffset,
+      boardY: (GAME_CONSTANTS.PLAY_AREA_TOP_MARGIN + (GAME_CONSTANTS.MAX_TETROMINO_HEIGHT * GAME_CONSTANTS.TILE_SIZE * GAME_CONSTANTS.PREVIEW_SCALE / 2)) + verticalOffset
+    };
+  }
+
+  /**
+   * Terapkan ukuran grid mode aktif ke config (dipakai bersama oleh semua renderer), board model dan input
+   * Dipanggil di startGame agar board tidak berubah ukuran di tengah game
+   */
+  private applyGridSize(): void {
+    const { width, height } = this.modeGridSize;
+    if (width === this.config.gridWidth && height === this.config.gridHeight) return;
+
+    this.config.gridWidth = width;
+    this.config.gridHeight = height;
+    Object.assign(this.config, this.computeBoardLayout(width, height));
+
+    this.gameBoard.resize(width, height);
+    this.shapeManager.setGridWidth(width);
+    this.keyboardController.setGridWidth(width);
+    this.gamepadController.setGridWidth(width);
+    this.uiManager.updateBoardFrame();
+  }
+
+  /**
+   * Handle aksi dari player - di-record (dengan game tick) lalu dijalankan
+   * Input live diabaikan selama replay
+   */
+  private handlePlayerAction(action: PlayerAction): void {
+    if (this.replayPlayer.isPlaying()) return;
+
+    if (this.isGameActive && !this.isCountdownActive) {
+      this.inputRecorder.record(this.tick, action);
+    }
+    this.applyAction(action);
+  }
+
+  /**
+   * Aksi dari keyboard / gamepad - diabaikan saat pause (softDropEnd tetap diteruskan agar tidak nyangkut)
+   */
+  private handleDeviceAction(device: InputDevice, action: PlayerAction): void {
+    if (this.isPaused && action !== 'softDropEnd') return;
+    this.setActiveInputDevice(device);
+    this.handlePlayerAction(action);
+  }
+
+  /**
+   * Update indicator input device yang terakhir dipakai
+   */
+  private setActiveInputDevice(device: InputDevice): void {
+    if (device === this.activeInputDevice) return;
+    this.activeInputDevice = device;
+    if (this.isSessionReady) {
+      this.uiManager.setInputDevice(device);
+    }
+  }
+
+  /**
+   * Tombol Start di gamepad: pause / resume (parent tetap dikabari lewat GAME_PAUSED / GAME_RESUMED)
+   */
+  private togglePauseFromGamepad(): void {
+    if (!this.isSessionReady) return;
+    this.setActiveInputDevice('gamepad');
+
+    if (this.isPaused) {
+      this.resumeGame();
+    } else {
+      this.pauseGame();
+    }
+  }
+
+  /**
+   * Jalankan satu aksi (dari player atau dari replay)
+   */
+  private applyAction(action: PlayerAction): void {
+    switch (action) {
+      case 'moveLeft': this.moveLeft(); break;
+      case 'moveRight': this.moveRight(); break;
+      case 'moveDown': this.moveDown(); break;
+      case 'rotate': this.rotate(); break;
+      case 'skip': this.skipCurrentBlock(); break;
+      case 'switch': this.switchCurrentBlock(); break;
+      case 'softDropStart': this.startSoftDrop(); break;
+      case 'softDropEnd': this.stopSoftDrop(); break;
+      case 'hardDrop': this.hardDrop(); break;
+      case 'hold': this.holdCurrentBlock(); break;
+    }
+  }
+
+  /**
+   * Mulai replay dari recording (session settings & seed diambil dari recording)
+   */
+  private startReplay(recording: InputRecording, speed: number = 1): void {
+    if (!InputRecorder.isRecording(recording)) {
+      console.error('Invalid replay recording');
+      return;
+    }
+
+    if (recording.session.gameplayType !== this.session.gameplayType) {
+      console.warn(`Replay recorded in "${recording.session.gameplayType}" mode, current UI is "${this.session.gameplayType}"`);
+    }
+
+    // Simpan session live agar bisa dikembalikan setelah replay selesai
+    if (!this.liveSession) {
+      this.liveSession = this.session;
+    }
+
+    this.replayPlayer.load(recording, speed);
+    this.applySession(recording.session);
+    this.uiManager.showReplayIndicator(speed, () => this.cycleReplaySpeed());
+
+    this.startGame();
+  }
+
+  /**
+   * Ganti ke replay speed berikutnya (tap indicator)
+   */
+  private cycleReplaySpeed(): void {
+    const speeds = GAME_CONSTANTS.REPLAY_SPEEDS;
+    const index = speeds.indexOf(this.replayPlayer.getSpeed());
+    this.setReplaySpeed(speeds[(index + 1) % speeds.length]);
+  }
+
+  private setReplaySpeed(speed: number): void {
+    if (!this.replayPlayer.isPlaying() || !(speed > 0)) return;
+    this.replayPlayer.setSpeed(speed);
+    this.uiManager.showReplayIndicator(speed, () => this.cycleReplaySpeed());
+  }
+
+  /**
+   * Stop replay dan kembalikan session live
+   */
+  private finishReplay(): void {
+    if (!this.replayPlayer.isPlaying()) return;
+
+    this.replayPlayer.stop();
+    this.uiManager.hideReplayIndicator();
+
+    if (this.liveSession) {
+      this.applySession(this.liveSession);
+      this.liveSession = null;
+    }
   }
 
   /**
    * Setup listener for messages from parent iframe
    */
   private setupParentMessageListener(): void {
-    window.addEventListener('message', (event) => {
-      if (event.data.type === 'restart') {
+    this.parentBridge.listen(message => this.handleParentMessage(message));
+  }
+
+  /**
+   * Handle message dari parent (sudah divalidasi oleh ParentBridge)
+   */
+  private handleParentMessage(message: ParentToGameMessage): void {
+    if (message.type === 'INIT') {
+      if (this.pendingInit) {
+        this.pendingInit(message.config);
+      } else {
+        console.warn('INIT ignored, session already started');
+      }
+      return;
+    }
+
+    // Command lain diabaikan sampai session siap
+    if (!this.isSessionReady) {
+      console.warn(`${message.type} ignored, game not ready yet`);
+      return;
+    }
+
+    switch (message.type) {
+      case 'restart': {
         console.log('Restart command received from parent');
+        this.finishReplay();
+        // Optional seed agar parent bisa reproduce session tertentu
+        const seed = SeededRandom.parseSeed(message.seed);
+        if (seed !== null) {
+          this.seedOverride = seed;
+        }
         this.startGame();
-      } else if (event.data.type === 'pause') {
+        break;
+      }
+      case 'pause':
         console.log('Pause command received from parent');
         this.pauseGame();
-      } else if (event.data.type === 'resume') {
+        break;
+      case 'resume':
         console.log('Resume command received from parent');
         this.resumeGame();
-      }
-    });
+        break;
+      case 'replay':
+        this.startReplay(message.recording, message.speed || 1);
+        break;
+      case 'replay_speed':
+        this.setReplaySpeed(message.speed);
+        break;
+    }
   }
 
   /**
-   * Pause the game
+   * Pause the game dan buka pause overlay
+   * @param page Halaman overlay yang dibuka (info button langsung ke How to Play)
    */
-  private pauseGame(): void {
+  private pauseGame(page: PausePage = 'menu'): void {
     // Allow pause during countdown or active game, but not if already paused
     if (this.isPaused || (!this.isGameActive && !this.isCountdownActive)) {
       return;
@@ -313,6 +654,10 @@ export class TetrisScene extends Phaser.Scene {
 
     this.isPaused = true;
 
+    // Lepas key yang sedang ditahan (keyup bisa terjadi saat pause) dan batalkan gesture
+    this.keyboardController.releaseAll();
+    this.gestureController.cancel();
+
     // Pause Lottie animation if countdown is active
     if (this.isCountdownActive && this.lottieAnimation) {
       this.lottieAnimation.pause();
@@ -323,11 +668,13 @@ export class TetrisScene extends Phaser.Scene {
       this.sound.get('bgm').pause();
     }
 
+    this.showPauseOverlay(page);
+
     // Notify parent that game is paused
-    window.parent.postMessage({
+    this.parentBridge.send({
       type: 'GAME_PAUSED',
       timestamp: Date.now()
-    }, '*');
+    });
 
     console.log('Game paused');
   }
@@ -342,6 +689,8 @@ export class TetrisScene extends Phaser.Scene {
     }
 
     this.isPaused = false;
+    this.keyboardController.cancelRebind();
+    this.hidePauseOverlay();
 
     // Resume Lottie animation if countdown is active
     if (this.isCountdownActive && this.lottieAnimation) {
@@ -354,10 +703,10 @@ export class TetrisScene extends Phaser.Scene {
     }
 
     // Notify parent that game is resumed
-    window.parent.postMessage({
+    this.parentBridge.send({
       type: 'GAME_RESUMED',
       timestamp: Date.now()
-    }, '*');
+    });
 
     console.log('Game resumed');
   }
@@ -370,11 +719,11 @@ export class TetrisScene extends Phaser.Scene {
     this.sound.mute = isMuted;
 
     // Notify parent about mute state change
-    window.parent.postMessage({
+    this.parentBridge.send({
       type: isMuted ? 'GAME_MUTED' : 'GAME_UNMUTED',
       isMuted: isMuted,
       timestamp: Date.now()
-    }, '*');
+    });
 
     console.log('Game audio:', isMuted ? 'MUTED' : 'UNMUTED');
   }
@@ -390,14 +739,132 @@ export class TetrisScene extends Phaser.Scene {
       return;
     }
 
-    // Pause the game
-    this.pauseGame();
+    // Pause the game, overlay langsung ke How to Play
+    this.pauseGame('howToPlay');
 
     // Notify parent that info button was clicked
-    window.parent.postMessage({
+    this.parentBridge.send({
       type: 'INFO_CLICKED',
       timestamp: Date.now()
-    }, '*');
+    });
+  }
+
+  /**
+   * Buka PauseScene di atas board, board di-blur (WebGL) agar tidak bisa dipakai planning
+   */
+  private showPauseOverlay(page: PausePage): void {
+    if (!this.pauseBlur) {
+      this.pauseBlur = this.cameras.main.postFX?.addBlur(1, 2, 2, GAME_CONSTANTS.PAUSE_BLUR_STRENGTH) || null;
+    }
+
+    // Lottie countdown adalah DOM element di atas canvas, sembunyikan selama pause
+    if (this.lottieContainer) {
+      this.lottieContainer.style.visibility = 'hidden';
+    }
+
+    const data: PauseSceneData = {
+      page,
+      instruction: this.currentGameplayConfig?.instruction_text || '',
+      isMuted: this.uiManager.getMuteState(),
+      getHowToPlay: () => this.getHowToPlayLines(),
+      getControls: () => this.getControlRows(),
+      onRemap: (index, onDone) => {
+        if (this.keyboardController.isRebinding()) return;
+        const actions = this.keyboardController.getEnabledActions();
+        this.keyboardController.startRebind(actions[index], onDone);
+      },
+      onResume: () => this.resumeGame(),
+      onRestart: () => {
+        this.resumeGame();
+        this.finishReplay();
+        this.startGame();
+      },
+      onMuteToggle: isMuted => {
+        this.uiManager.setMuted(isMuted);
+        this.handleMuteToggle(isMuted);
+      }
+    };
+    this.scene.launch('PauseScene', data);
+  }
+
+  private hidePauseOverlay(): void {
+    this.scene.stop('PauseScene');
+
+    if (this.pauseBlur) {
+      this.cameras.main.postFX?.remove(this.pauseBlur);
+      this.pauseBlur = null;
+    }
+
+    if (this.lottieContainer) {
+      this.lottieContainer.style.visibility = '';
+    }
+  }
+
+  /**
+   * Key bindings aktif untuk halaman How to Play di pause overlay
+   */
+  private getControlRows(): { label: string; value: string }[] {
+    const labels: Record<KeyAction, string> = {
+      moveLeft: 'Move left',
+      moveRight: 'Move right',
+      softDrop: 'Soft drop',
+      hardDrop: 'Hard drop',
+      rotate: 'Rotate',
+      skip: 'Skip',
+      switch: 'Switch',
+      hold: 'Hold'
+    };
+    const bindings = this.keyboardController.getBindings();
+
+    return this.keyboardController.getEnabledActions().map(action => ({
+      label: labels[action],
+      value: bindings[action].map(code => KeyboardController.formatKey(code)).join(' / ') || '-'
+    }));
+  }
+
+  /**
+   * Cara main untuk halaman How to Play: hanya kontrol yang aktif di mode ini (special_tag),
+   * dengan key pertama dari bindings saat ini (ikut berubah setelah remap)
+   */
+  private getHowToPlayLines(): string[] {
+    const tags = this.currentGameplayConfig?.special_tag || [];
+    const bindings = this.keyboardController.getBindings();
+    const key = (action: KeyAction) => {
+      const code = bindings[action][0];
+      return code ? KeyboardController.formatKey(code) : '-';
+    };
+
+    const lines = [
+      `Drag, use the arrow buttons or press ${key('moveLeft')} ${key('moveRight')} to move.`,
+      `Flick down, double tap ↓ or press ${key('hardDrop')} to drop.`
+    ];
+    if (tags.includes('tap_to_place')) {
+      lines.push('Tap a column to drop the piece there.');
+    }
+    if (tags.includes('rotate')) {
+      lines.push(tags.includes('tap_to_place')
+        ? `Use the rotate button or press ${key('rotate')} to rotate.`
+        : `Tap the board, use the rotate button or press ${key('rotate')} to rotate.`);
+    }
+    if (tags.includes('skip')) {
+      lines.push(`Use the skip button or press ${key('skip')} to skip a piece.`);
+    }
+    if (tags.includes('switch')) {
+      lines.push(`Use the switch button or press ${key('switch')} to change the shape.`);
+    }
+    if (tags.includes('hold')) {
+      lines.push(`Tap the hold slot or press ${key('hold')} to keep a piece for later.`);
+    }
+    if (tags.includes('prediction')) {
+      lines.push('The hint shows a good spot for the piece.');
+    }
+    if (tags.includes('ghost')) {
+      lines.push('The outline shows where the piece will land.');
+    }
+    if (tags.includes('line_clear')) {
+      lines.push('Full rows are cleared.');
+    }
+    return lines;
   }
 
   /**
@@ -422,6 +889,9 @@ export class TetrisScene extends Phaser.Scene {
    * Start/Restart game
    */
   private startGame(): void {
+    // Tutup results screen (restart/replay dari parent atau Play Again)
+    this.scene.stop('ResultsScene');
+
     // Cleanup any existing Lottie animation
     if (this.lottieAnimation) {
       this.lottieAnimation.destroy();
@@ -441,13 +911,37 @@ export class TetrisScene extends Phaser.Scene {
       }
     }
 
+    // Seed harus di-set sebelum reset agar shuffle skills ikut deterministic
+    // Replay selalu memakai seed dari recording
+    const replay = this.replayPlayer.getRecording();
+    this.currentSeed = replay ? replay.seed : (this.seedOverride ?? SeededRandom.createSeed());
+    this.shapeManager.setSeed(this.currentSeed);
+    if (this.debugMode) {
+      console.log('Game seed:', this.currentSeed);
+    }
+
+    this.applyGridSize();
     this.gameBoard.reset();
     this.shapeManager.reset(); // Reset shape manager state
+    this.resultTracker.reset();
+    this.scoreManager.reset();
+    this.uiManager.updateScore(0);
+    this.levelManager.reset();
+    this.applyLevel();
     this.isGameActive = false; // Don't start game immediately
+    this.tick = 0;
+    this.tickAccumulator = 0;
     this.dropTimer = 0;
+    this.isSoftDropping = false;
+    this.softDropTimer = 0;
     this.gameTimer = this.constGameTime; // Reset countdown timer
     this.uiManager.updateTimer(this.gameTimer); // Update timer display
 
+    // Kosongkan hold slot
+    this.heldTetromino = null;
+    this.canHold = true;
+    this.updateHoldPreview();
+
     // Generate 7 next tetrominos
     this.nextTetrominos = [];
     for (let i = 0; i < 7; i++) {
@@ -457,6 +951,13 @@ export class TetrisScene extends Phaser.Scene {
     // Update preview
     this.updateNextShapePreview();
 
+    // Record input session ini (kecuali sedang replay)
+    if (replay) {
+      this.inputRecorder.cancel();
+    } else {
+      this.inputRecorder.start(this.currentSeed, GAME_CONSTANTS.FIXED_TICK_MS, this.session);
+    }
+
     // Start countdown before spawning first tetromino
     this.startCountdown();
   }
@@ -469,10 +970,11 @@ export class TetrisScene extends Phaser.Scene {
     this.countdownTimer = this.countdownDuration;
 
     // Notify parent that game is starting (before countdown animation)
-    window.parent.postMessage({
+    this.parentBridge.send({
       type: 'GAME_STARTING',
+      seed: this.currentSeed,
       timestamp: Date.now()
-    }, '*');
+    });
 
     // Create Lottie animation container
     this.createLottieCountdown();
@@ -585,6 +1087,9 @@ export class TetrisScene extends Phaser.Scene {
    * Spawn next tetromino
    */
   private spawnNextTetromino(): void {
+    // Piece baru dari queue = hold boleh dipakai lagi
+    this.canHold = true;
+
     // Ambil shape pertama dari queue
     this.currentTetromino = this.nextTetrominos.shift()!;
 
@@ -596,16 +1101,18 @@ export class TetrisScene extends Phaser.Scene {
 
     if (spawnPosition === null) {
       // Tidak ada posisi kosong di baris atas → GAME OVER
-      this.gameOver();
+      this.gameOver('no_spawn');
       return;
     }
 
     // Set posisi spawn yang valid
     this.currentTetromino.x = spawnPosition.x;
     this.currentTetromino.y = spawnPosition.y;
+    this.lockDelay.reset(spawnPosition.y);
 
-    // Update next shape preview
+    // Update next shape & hold preview
     this.updateNextShapePreview();
+    this.updateHoldPreview();
 
     // Update prediction for new tetromino
     this.updatePrediction();
@@ -656,21 +1163,28 @@ export class TetrisScene extends Phaser.Scene {
 
     // Create 7 previews horizontal (dari kanan ke kiri)
     // Align right edge of first shape with right side of play area
-    const maxTetrominoHeight = GAME_CONSTANTS.MAX_TETROMINO_HEIGHT;
     const scale = GAME_CONSTANTS.PREVIEW_SCALE;
     const baseSpacing = this.config.tileSize * scale * GAME_CONSTANTS.PREVIEW_BASE_SPACING_MULTIPLIER;
-    const playAreaRight = this.config.boardX + GAME_CONSTANTS.PLAY_AREA_WIDTH;
+    const playAreaRight = this.getPreviewAnchor().x + GAME_CONSTANTS.PLAY_AREA_WIDTH;
     const firstShapeWidth = this.nextTetrominos[0].matrix[0].length * this.config.tileSize * scale;
     const startX = playAreaRight - (firstShapeWidth / 2); // Position so right edge aligns
 
-    // Calculate preview Y position: play area top - spacing - (max tetromino height * tileSize * scale / 2)
-    // This positions the center so the bottom is spacing from play area top
-    const previewY = this.config.boardY - GAME_CONSTANTS.TETROMINO_DISTANCE_FROM_PLAY_AREA - (maxTetrominoHeight * this.config.tileSize * scale / 2);
+    const previewY = this.getNextPreviewY();
+
+    // Jangan overlap dengan hold slot di kiri (special_tag "hold")
+    let minLeft = -Infinity;
+    if (this.isHoldEnabled) {
+      const holdSlot = this.getHoldSlotLayout();
+      minLeft = holdSlot.x + (holdSlot.size / 2) + baseSpacing;
+    }
 
     let currentX = startX;
 
     for (let i = 0; i < 4; i++) {
       if (this.nextTetrominos[i]) {
+        const shapeWidth = this.nextTetrominos[i].matrix[0].length * this.config.tileSize * scale;
+        if (currentX - (shapeWidth / 2) < minLeft) break;
+
         // First shape (index 0) uses color, others use outline
         const useColor = i === 0;
 
@@ -696,7 +1210,62 @@ export class TetrisScene extends Phaser.Scene {
   }
 
   /**
-   * Update prediction (only in explorer mode)
+   * Y tengah baris next preview: play area top - spacing - (max tetromino height * tileSize * scale / 2)
+   * Ini memposisikan center agar bagian bawah berjarak spacing dari play area top
+   */
+  private getNextPreviewY(): number {
+    const previewHeight = GAME_CONSTANTS.MAX_TETROMINO_HEIGHT * this.config.tileSize * GAME_CONSTANTS.PREVIEW_SCALE;
+    return this.getPreviewAnchor().y - GAME_CONSTANTS.TETROMINO_DISTANCE_FROM_PLAY_AREA - (previewHeight / 2);
+  }
+
+  /**
+   * Posisi board untuk grid default - next preview tetap di atas panel meskipun grid mode lebih kecil
+   */
+  private getPreviewAnchor(): { x: number; y: number } {
+    const layout = this.computeBoardLayout(GAME_CONSTANTS.GRID_WIDTH, GAME_CONSTANTS.GRID_HEIGHT);
+    return { x: layout.boardX, y: layout.boardY };
+  }
+
+  /**
+   * Posisi hold slot: kiri baris next preview, sejajar sisi kiri play area
+   */
+  private getHoldSlotLayout(): { x: number; y: number; size: number } {
+    const size = GAME_CONSTANTS.MAX_TETROMINO_HEIGHT * this.config.tileSize * GAME_CONSTANTS.HOLD_PREVIEW_SCALE;
+    const playAreaLeft = (GAME_CONSTANTS.CANVAS_WIDTH - GAME_CONSTANTS.PLAY_AREA_WIDTH) / 2;
+    return { x: playAreaLeft + (size / 2), y: this.getNextPreviewY(), size };
+  }
+
+  /**
+   * Update hold slot & preview piece yang di-hold (redup jika hold sudah dipakai di drop ini)
+   */
+  private updateHoldPreview(): void {
+    this.holdPreviewContainer?.destroy();
+    this.holdPreviewContainer = null;
+
+    if (!this.isHoldEnabled) {
+      this.uiManager.hideHoldSlot();
+      return;
+    }
+
+    const { x, y, size } = this.getHoldSlotLayout();
+    this.uiManager.showHoldSlot(x, y, size, () => {
+      if (!this.isPaused) this.handlePlayerAction('hold');
+    });
+
+    if (this.heldTetromino) {
+      this.holdPreviewContainer = this.tetrominoRenderer.renderPreview(
+        this.heldTetromino,
+        x,
+        y,
+        GAME_CONSTANTS.HOLD_PREVIEW_SCALE,
+        true
+      );
+      this.holdPreviewContainer.setAlpha(this.canHold ? 1 : 0.5);
+    }
+  }
+
+  /**
+   * Update prediction (only in explorer mode) dan ghost piece (special_tag "ghost")
    */
   private updatePrediction(): void {
     if (this.isExplorerMode && this.currentTetromino) {
@@ -709,12 +1278,24 @@ export class TetrisScene extends Phaser.Scene {
     } else {
       this.tetrominoRenderer.destroyPrediction();
     }
+
+    // Ghost ikut update di setiap move, rotate, switch dan spawn
+    if (this.isGhostEnabled && this.currentTetromino) {
+      this.tetrominoRenderer.renderGhost(this.currentTetromino, this.gameBoard);
+    } else {
+      this.tetrominoRenderer.destroyGhost();
+    }
   }
 
   /**
    * Update - Game loop
    */
   update(time: number, delta: number): void {
+    // Gamepad di-poll setiap frame (aksi diabaikan saat pause, lihat handleDeviceAction)
+    if (this.isSessionReady) {
+      this.gamepadController.update(delta);
+    }
+
     // Handle countdown before game starts
     if (this.isCountdownActive) {
       // Don't update countdown timer if paused
@@ -737,41 +1318,43 @@ export class TetrisScene extends Phaser.Scene {
       return;
     }
 
+    // Auto-repeat left/right (DAS/ARR) untuk key yang ditahan
+    this.keyboardController.update(delta);
+
     if (!this.currentTetromino) {
       return;
     }
 
-    // Update game timer (countdown)
-    if (this.isGameActive) {
-      this.gameTimer -= delta / 1000; // Convert to seconds and countdown
-      if (this.gameTimer <= 0) {
-        this.gameTimer = 0;
-        this.gameOver(); // Time's up!
-      }
-      this.uiManager.updateTimer(Math.ceil(this.gameTimer)); // Show ceiling for better UX
-    }
+    // Jalankan game logic per fixed tick agar replay deterministic (replay bisa dipercepat)
+    const speed = this.replayPlayer.isPlaying() ? this.replayPlayer.getSpeed() : 1;
+    this.tickAccumulator += delta * speed;
 
-    // Auto drop tetromino (only if gravity active and not soft dropping)
-    if (this.isGameActive && !this.isSoftDropping) {
-      this.dropTimer += delta;
-      if (this.dropTimer >= this.dropInterval) {
-        this.dropTimer = 0;
-        this.moveDown();
+    let steps = 0;
+    while (this.isGameActive && this.tickAccumulator >= GAME_CONSTANTS.FIXED_TICK_MS) {
+      this.tickAccumulator -= GAME_CONSTANTS.FIXED_TICK_MS;
+      this.stepGame();
+
+      // Hindari spiral setelah tab freeze, sisa backlog dibuang
+      if (++steps >= GAME_CONSTANTS.MAX_TICKS_PER_FRAME) {
+        this.tickAccumulator = 0;
+        break;
       }
     }
 
-    // Soft drop tetromino (when holding down button)
-    if (this.isGameActive && this.isSoftDropping) {
-      this.softDropTimer += delta;
-      if (this.softDropTimer >= this.softDropInterval) {
-        this.softDropTimer = 0;
-        this.moveDown();
-      }
+    if (this.isGameActive || steps > 0) {
+      this.uiManager.updateTimer(Math.ceil(this.gameTimer)); // Show ceiling for better UX
     }
 
     // Render current tetromino (only if game is active)
     if (this.isGameActive) {
       this.tetrominoRenderer.renderTetromino(this.currentTetromino);
+
+      // Outline berkedip selama piece grounded (lock delay berjalan)
+      if (this.lockDelay.isEnabled() && this.lockDelay.isGrounded()) {
+        this.tetrominoRenderer.renderLockOutline(this.currentTetromino, this.lockDelay.getProgress(), time);
+      } else {
+        this.tetrominoRenderer.destroyLockOutline();
+      }
     }
 
     // Debug rendering
@@ -780,6 +1363,60 @@ export class TetrisScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Satu fixed game tick: replay input, timer, gravity, soft drop
+   */
+  private stepGame(): void {
+    const tickMs = GAME_CONSTANTS.FIXED_TICK_MS;
+
+    // Replay: jalankan input yang di-record untuk tick ini (sebelum gravity, sama seperti saat live)
+    if (this.replayPlayer.isPlaying()) {
+      for (const action of this.replayPlayer.takeActions(this.tick)) {
+        this.applyAction(action);
+      }
+      if (!this.isGameActive) return;
+    }
+
+    this.tick++;
+
+    // Update game timer (countdown)
+    this.gameTimer -= tickMs / 1000;
+    if (this.gameTimer <= 0) {
+      this.gameTimer = 0;
+      this.gameOver('timer'); // Time's up!
+      return;
+    }
+
+    // Level naik berdasarkan waktu (gravity rules "level_by": "time")
+    if (this.levelManager.onTick(tickMs)) {
+      this.applyLevel();
+    }
+
+    // Auto drop tetromino (only if not soft dropping)
+    if (!this.isSoftDropping) {
+      this.dropTimer += tickMs;
+      if (this.dropTimer >= this.dropInterval) {
+        this.dropTimer = 0;
+        this.moveDown();
+      }
+    } else {
+      // Soft drop tetromino (when holding down button)
+      this.softDropTimer += tickMs;
+      if (this.softDropTimer >= this.softDropInterval) {
+        this.softDropTimer = 0;
+        this.moveDown();
+      }
+    }
+
+    // Lock delay: hitung waktu grounded, lock jika sudah habis
+    if (this.lockDelay.isEnabled() && this.isGameActive && this.currentTetromino) {
+      const isGrounded = !this.gameBoard.canPlace({ ...this.currentTetromino, y: this.currentTetromino.y + 1 });
+      if (this.lockDelay.step(tickMs, isGrounded)) {
+        this.lockTetromino();
+      }
+    }
+  }
+
   /**
    * Render debug info
    */
@@ -882,6 +1519,7 @@ export class TetrisScene extends Phaser.Scene {
     const newTetromino = { ...this.currentTetromino, x: this.currentTetromino.x - 1 };
     if (this.gameBoard.canPlace(newTetromino)) {
       this.currentTetromino = newTetromino;
+      this.lockDelay.onMoveOrRotate();
       this.updatePrediction();
     }
   }
@@ -895,6 +1533,7 @@ export class TetrisScene extends Phaser.Scene {
     const newTetromino = { ...this.currentTetromino, x: this.currentTetromino.x + 1 };
     if (this.gameBoard.canPlace(newTetromino)) {
       this.currentTetromino = newTetromino;
+      this.lockDelay.onMoveOrRotate();
       this.updatePrediction();
     }
   }
@@ -908,11 +1547,13 @@ export class TetrisScene extends Phaser.Scene {
     const newTetromino = { ...this.currentTetromino, y: this.currentTetromino.y + 1 };
     if (this.gameBoard.canPlace(newTetromino)) {
       this.currentTetromino = newTetromino;
+      this.lockDelay.onMoveDown(newTetromino.y);
       this.updatePrediction();
-    } else {
-      // Lock tetromino
+    } else if (!this.lockDelay.isEnabled()) {
+      // Lock tetromino (tanpa lock delay)
       this.lockTetromino();
     }
+    // Dengan lock delay, lock dilakukan di stepGame setelah piece grounded selama delay_ms
   }
 
   /**
@@ -921,40 +1562,84 @@ export class TetrisScene extends Phaser.Scene {
   private rotate(): void {
     if (!this.currentTetromino || this.isCountdownActive || !this.isGameActive) return;
 
-    // Shape O tidak bisa di-rotate (selalu 0°)
-    if (this.currentTetromino.shape.shape_name === 'o') return;
+    // Rotation states (O tidak rotate, S/Z 0°/90°) dan wall kicks diambil dari shape_data.json
+    const rotated = this.shapeManager.rotateTetromino(this.currentTetromino, target => this.gameBoard.canPlace(target));
+    if (rotated) {
+      this.currentTetromino = rotated;
+      this.lockDelay.onMoveOrRotate();
+      this.updatePrediction();
+    }
+  }
 
-    const shapeName = this.currentTetromino.shape.shape_name;
+  /**
+   * Hard drop: langsung turun ke landing position lalu lock
+   */
+  private hardDrop(): void {
+    if (!this.currentTetromino || this.isCountdownActive || !this.isGameActive) return;
 
-    // Shape S/Z toggle antara 0° dan 90°
-    if (shapeName === 's' || shapeName === 'z') {
-      if (this.currentTetromino.rotation === 0) {
-        // 0° → 90°: rotate sekali
-        const rotated = this.shapeManager.rotateTetromino(this.currentTetromino);
-        if (this.gameBoard.canPlace(rotated)) {
-          this.currentTetromino = rotated;
-          this.updatePrediction();
-        }
-      } else {
-        // 90° → 0°: kembali ke matrix original
-        const original = {
-          ...this.currentTetromino,
-          rotation: 0,
-          matrix: this.currentTetromino.shape.matrix.map(row => [...row])
-        };
-        if (this.gameBoard.canPlace(original)) {
-          this.currentTetromino = original;
-          this.updatePrediction();
-        }
-      }
-      return;
+    const landing = this.gameBoard.findLandingPosition(this.currentTetromino);
+    this.currentTetromino = { ...this.currentTetromino, x: landing.x, y: landing.y };
+    this.lockTetromino();
+  }
+
+  /**
+   * Setup gestures di play area: drag horizontal = geser kolom, flick ke bawah = hard drop,
+   * tap = tap-to-place (special_tag "tap_to_place") atau rotate (special_tag "rotate")
+   * Semua di-record sebagai PlayerAction biasa agar replay tetap jalan
+   */
+  private setupGestures(): void {
+    const panelTop = GAME_CONSTANTS.PLAY_AREA_TOP_MARGIN + (GAME_CONSTANTS.MAX_TETROMINO_HEIGHT * GAME_CONSTANTS.TILE_SIZE * GAME_CONSTANTS.PREVIEW_SCALE / 2);
+    const bounds = new Phaser.Geom.Rectangle(
+      (GAME_CONSTANTS.CANVAS_WIDTH - GAME_CONSTANTS.PLAY_AREA_WIDTH) / 2,
+      panelTop,
+      GAME_CONSTANTS.PLAY_AREA_WIDTH,
+      GAME_CONSTANTS.PLAY_AREA_HEIGHT
+    );
+
+    this.gestureController = new GestureController(this, bounds, {
+      onMove: direction => this.handlePlayerAction(direction),
+      onHardDrop: () => this.handlePlayerAction('hardDrop'),
+      onTap: pointer => this.handlePlayAreaTap(pointer)
+    }, () => !!this.currentTetromino && !this.isPaused && !this.replayPlayer.isPlaying());
+  }
+
+  /**
+   * Tap di play area: tap-to-place ke kolom yang di-tap, atau rotate jika mode mengizinkan
+   */
+  private handlePlayAreaTap(pointer: Phaser.Input.Pointer): void {
+    if (this.isTapToPlaceEnabled) {
+      const gridWidth = this.config.gridWidth * this.config.tileSize;
+      const gridHeight = this.config.gridHeight * this.config.tileSize;
+      const localX = pointer.worldX - this.config.boardX;
+      const localY = pointer.worldY - this.config.boardY;
+      if (localX < 0 || localX >= gridWidth || localY < 0 || localY >= gridHeight) return;
+
+      this.placeAtColumn(Math.floor(localX / this.config.tileSize));
+    } else if (this.isRotateEnabled) {
+      this.handlePlayerAction('rotate');
     }
+  }
 
-    const rotatedTetromino = this.shapeManager.rotateTetromino(this.currentTetromino);
-    if (this.gameBoard.canPlace(rotatedTetromino)) {
-      this.currentTetromino = rotatedTetromino;
-      this.updatePrediction();
+  /**
+   * Geser current tetromino agar center-nya di kolom target, lalu hard drop
+   */
+  private placeAtColumn(column: number): void {
+    if (!this.currentTetromino || this.isCountdownActive || !this.isGameActive) return;
+
+    // Center berdasarkan kolom yang terisi di matrix
+    const filledCols = this.currentTetromino.matrix[0]
+      .map((_, col) => col)
+      .filter(col => this.currentTetromino!.matrix.some(row => row[col] === 1));
+    const centerCol = Math.floor((filledCols[0] + filledCols[filledCols.length - 1]) / 2);
+    const targetX = column - centerCol;
+
+    while (this.currentTetromino && this.currentTetromino.x !== targetX) {
+      const previousX = this.currentTetromino.x;
+      this.handlePlayerAction(targetX < previousX ? 'moveLeft' : 'moveRight');
+      if (this.currentTetromino.x === previousX) break; // Terhalang wall / block
     }
+
+    this.handlePlayerAction('hardDrop');
   }
 
   /**
@@ -980,6 +1665,10 @@ export class TetrisScene extends Phaser.Scene {
   private skipCurrentBlock(): void {
     if (!this.currentTetromino || this.isCountdownActive || !this.isGameActive) return;
 
+    this.resultTracker.recordSkip(this.currentTetromino, this.tick);
+    this.scoreManager.onSkip();
+    this.uiManager.updateScore(this.scoreManager.getScore());
+
     // Return labels to pool (label bisa dipakai lagi karena tidak di-lock)
     this.shapeManager.returnLabelsToPool(this.currentTetromino.labels);
 
@@ -990,6 +1679,43 @@ export class TetrisScene extends Phaser.Scene {
     this.spawnNextTetromino();
   }
 
+  /**
+   * Hold: simpan current piece (dengan labels) di hold slot, ambil piece yang di-hold atau next dari queue
+   * Hanya sekali per drop, boleh lagi setelah piece berikutnya spawn dari queue
+   */
+  private holdCurrentBlock(): void {
+    if (!this.isHoldEnabled || !this.canHold) return;
+    if (!this.currentTetromino || this.isCountdownActive || !this.isGameActive) return;
+
+    const toHold = this.currentTetromino;
+    const fromHold = this.heldTetromino;
+
+    if (fromHold) {
+      // Piece dari hold slot spawn ulang di baris atas (rotation tetap)
+      const spawnPosition = this.findValidSpawnInTopRow(fromHold);
+      if (!spawnPosition) {
+        console.warn('No room to swap held piece back in');
+        return;
+      }
+
+      this.shapeManager.markLabelsHeld(toHold.labels);
+      this.heldTetromino = toHold;
+      this.tetrominoRenderer.destroy();
+      this.currentTetromino = { ...fromHold, x: spawnPosition.x, y: spawnPosition.y };
+      this.lockDelay.reset(spawnPosition.y);
+      this.updatePrediction();
+    } else {
+      // Hold slot kosong: ambil next dari queue
+      this.shapeManager.markLabelsHeld(toHold.labels);
+      this.heldTetromino = toHold;
+      this.tetrominoRenderer.destroy();
+      this.spawnNextTetromino();
+    }
+
+    this.canHold = false;
+    this.updateHoldPreview();
+  }
+
   /**
    * Switch current block shape to a random tetromino
    */
@@ -1023,6 +1749,7 @@ export class TetrisScene extends Phaser.Scene {
 
       // Check if this shape+rotation can be placed at current position
       if (this.gameBoard.canPlace(testTetromino)) {
+        this.resultTracker.recordSwitch(this.currentTetromino, testTetromino, this.tick);
         this.currentTetromino = testTetromino;
         validShapeFound = true;
         break;
@@ -1036,6 +1763,10 @@ export class TetrisScene extends Phaser.Scene {
       return;
     }
 
+    this.scoreManager.onSwitch();
+    this.uiManager.updateScore(this.scoreManager.getScore());
+    this.lockDelay.onMoveOrRotate();
+
     // Update prediction untuk new tetromino shape
     this.updatePrediction();
   }
@@ -1046,11 +1777,15 @@ export class TetrisScene extends Phaser.Scene {
   private lockTetromino(): void {
     if (!this.currentTetromino) return;
 
-    // Destroy prediction before locking
+    // Destroy prediction, ghost dan lock outline before locking
     this.tetrominoRenderer.destroyPrediction();
+    this.tetrominoRenderer.destroyGhost();
+    this.tetrominoRenderer.destroyLockOutline();
 
     // Lock ke board
-    this.gameBoard.lockTetromino(this.currentTetromino);
+    const piece = this.gameBoard.lockTetromino(this.currentTetromino);
+    this.resultTracker.recordLock(piece, this.tick);
+    this.scoreManager.onLock(piece, this.gameBoard.getModel());
 
     // Mark labels as locked (tidak boleh muncul lagi sampai cycle reset)
     this.shapeManager.markLabelsLocked(this.currentTetromino.labels);
@@ -1061,63 +1796,118 @@ export class TetrisScene extends Phaser.Scene {
     // Destroy renderer container
     this.tetrominoRenderer.destroy();
 
-    // Clear completed lines
-    // const linesCleared = this.gameBoard.clearLines();
+    let levelChanged = this.levelManager.onPiecePlaced();
+
+    // Clear completed lines (hanya untuk mode dengan special_tag "line_clear")
+    if (this.isLineClearEnabled) {
+      const clearedRows = this.gameBoard.clearLines();
+      this.scoreManager.onLinesCleared(clearedRows);
+      levelChanged = this.levelManager.onLinesCleared(clearedRows) || levelChanged;
+    }
+    this.uiManager.updateScore(this.scoreManager.getScore());
+
+    if (levelChanged) {
+      this.applyLevel();
+    }
 
     // Spawn next tetromino (smart spawn will check if there's valid position)
     this.spawnNextTetromino();
   }
 
+  /**
+   * Apply drop interval & level indicator dari LevelManager
+   */
+  private applyLevel(): void {
+    this.dropInterval = this.levelManager.getDropInterval();
+    this.uiManager.updateLevel(this.levelManager.getLevel());
+  }
+
   /**
    * Game over
    */
-  private gameOver(): void {
+  private gameOver(reason: GameEndReason): void {
     this.isGameActive = false;
 
+    // Susun hasil session (skills yang di-lock/skip/switch, fill, holes)
+    const result = this.resultTracker.build(this.gameBoard.getModel(), {
+      mode: this.session.gameplayType,
+      seed: this.currentSeed,
+      endReason: reason,
+      timeUsed: this.constGameTime - this.gameTimer,
+      timeLimit: this.constGameTime,
+      score: this.scoreManager.getScore(),
+      scoreBreakdown: this.scoreManager.getBreakdown(),
+      level: this.levelManager.getLevel()
+    });
+    window.tetrisLastResult = result;
+
+    // Simpan & kirim recording session ini (replay tidak di-record ulang)
+    if (this.replayPlayer.isPlaying()) {
+      this.finishReplay();
+    } else {
+      this.parentBridge.send({
+        type: 'GAME_RESULT',
+        result,
+        timestamp: Date.now()
+      });
+
+      const recording = this.inputRecorder.stop(this.tick);
+      if (recording) {
+        window.tetrisLastRecording = recording;
+        this.parentBridge.send({
+          type: 'GAME_RECORDING',
+          recording,
+          timestamp: Date.now()
+        });
+      }
+    }
+
     // Delay sebelum capture screenshot agar semua render selesai
+    // Results screen dibuka setelah capture agar tidak ikut di screenshot
     this.time.delayedCall(300, () => {
-      this.capturePlayAreaScreenshot();
+      this.capturePlayAreaScreenshot(screenshot => this.showResults(result, screenshot));
     });
+  }
 
-    // Wait for parent to send restart message
-    // No auto-restart
+  /**
+   * Tampilkan ResultsScene di atas board (Play Again = restart tanpa parent)
+   */
+  private showResults(result: GameResult, screenshot: string | null): void {
+    // Game baru sudah dimulai (restart/replay dari parent) saat screenshot masih di-capture
+    if (this.isGameActive || this.isCountdownActive) return;
+
+    const data: ResultsSceneData = {
+      result,
+      screenshot,
+      onPlayAgain: () => {
+        this.startGame();
+      }
+    };
+    this.scene.launch('ResultsScene', data);
   }
 
   /**
    * Capture screenshot of play area and send to parent iframe
+   * @param onCaptured Dipanggil dengan PNG data URL (null jika capture gagal)
    */
-  private capturePlayAreaScreenshot(): void {
-    // Hide prediction shape before capturing screenshot
+  private capturePlayAreaScreenshot(onCaptured: (screenshot: string | null) => void): void {
+    // Hide prediction, ghost dan lock outline before capturing screenshot
     this.tetrominoRenderer.destroyPrediction();
+    this.tetrominoRenderer.destroyGhost();
+    this.tetrominoRenderer.destroyLockOutline();
 
     // Stop all ongoing tweens to ensure shapes are in final state
     this.tweens.killAll();
 
     // Force all locked tiles to their final color state (no outline, no animation)
-    const allImages = this.gameBoard.getLockedTiles().getAll() as Phaser.GameObjects.Image[];
-    allImages.forEach(obj => {
-      if (obj instanceof Phaser.GameObjects.Image) {
-        // Check if it's a shape image (not text)
-        const currentTexture = obj.texture.key;
-        if (currentTexture.includes('_outline')) {
-          // Change outline to color
-          const colorKey = currentTexture.replace('_outline', '_color');
-          obj.setTexture(colorKey);
-        }
-        // Reset scale to original (before animation)
-        const originalScale = (obj as any).originalScale;
-        if (originalScale !== undefined) {
-          obj.setScale(originalScale);
-        }
-      }
-    });
+    this.gameBoard.finalizeLockedPieces();
 
     // Wait a frame to ensure all changes are rendered
     this.time.delayedCall(500, () => {
       // Calculate play area bounds (original position without grid centering offset)
       // Use the original play area coordinates, not the grid coordinates
       const x = (this.cameras.main.width - GAME_CONSTANTS.PLAY_AREA_WIDTH) / 2;
-      const y = (GAME_CONSTANTS.PLAY_AREA_TOP_MARGIN + (GAME_CONSTANTS.MAX_TETROMINO_HEIGHT * this.config.tileSize * GAME_CONSTANTS.PREVIEW_SCALE / 2));
+      const y = (GAME_CONSTANTS.PLAY_AREA_TOP_MARGIN + (GAME_CONSTANTS.MAX_TETROMINO_HEIGHT * GAME_CONSTANTS.TILE_SIZE * GAME_CONSTANTS.PREVIEW_SCALE / 2));
       const width = GAME_CONSTANTS.PLAY_AREA_WIDTH;
       const height = GAME_CONSTANTS.PLAY_AREA_HEIGHT;
 
@@ -1151,24 +1941,26 @@ export class TetrisScene extends Phaser.Scene {
             // Quality parameter (0.0 to 1.0) - 1.0 is maximum quality
             const screenshotDataUrl = canvas.toDataURL('image/png', 1.0);
 
-            // Send screenshot to parent iframe via postMessage
-            if (window.parent !== window) {
-              window.parent.postMessage({
-                type: 'PHASER_IMAGE',
-                screenshot: screenshotDataUrl,
-                timestamp: new Date().toISOString(),
-                resolution: {
-                  width: canvas.width,
-                  height: canvas.height,
-                  multiplier: resolutionMultiplier
-                }
-              }, '*');
-            }
+            // Send screenshot to parent iframe via postMessage (hanya ke allowed parent origin)
+            this.parentBridge.send({
+              type: 'PHASER_IMAGE',
+              screenshot: screenshotDataUrl,
+              seed: this.currentSeed,
+              timestamp: new Date().toISOString(),
+              resolution: {
+                width: canvas.width,
+                height: canvas.height,
+                multiplier: resolutionMultiplier
+              }
+            });
 
             // Also store in window object for direct access if needed
-            (window as any).tetrisGameOverScreenshot = screenshotDataUrl;
+            window.tetrisGameOverScreenshot = screenshotDataUrl;
+            onCaptured(screenshotDataUrl);
+            return;
           }
         }
+        onCaptured(null);
       });
     });
   }
@@ -6,15 +6,23 @@
  * Data struktur dari shape_data.json
  */
 export interface ShapeData {
-  shape_name: string;
-  outline_path: string;
-  color_path: string;
-  prediction_path: string; // Path untuk prediction image
-  text_position: number[][]; // Array of [x, y] offsets untuk text placement
-  matrix: number[][];
+  shape_name: string; // Juga dipakai untuk texture key (lihat getShapeTextureKey)
+  outline_path?: string; // Tanpa path (atau gagal load) = texture digambar procedural
+  color_path?: string;
+  prediction_path?: string; // Path untuk prediction image
+  color?: string; // Warna hex untuk texture procedural, mis. "#7B6CF6"
+  text_position: number[][]; // Array of [x, y] offsets untuk text placement (default [[0, 0]])
+  matrix: number[][]; // Polyomino apa saja, 1 = tile
   label: string[]; // Array of available labels for this shape
+  rotations?: number[]; // Rotation states yang boleh dipakai (default [0, 90, 180, 270])
+  kicks?: Record<string, number[][]>; // Wall kick offsets [dx, dy] per transisi "from>to"
 }
 
+/**
+ * Versi texture per shape: color (locked/preview), outline (falling), prediction (hint & ghost)
+ */
+export type ShapeTextureType = 'color' | 'outline' | 'prediction';
+
 /**
  * Representasi tetromino yang sedang aktif di game
  */
@@ -31,21 +39,64 @@ export interface Tetromino {
  * Konfigurasi posisi dan ukuran untuk game board
  */
 export interface GameConfig {
-  tileSize: number; // 40px
-  gridWidth: number; // 8 tiles
-  gridHeight: number; // 9 tiles
+  tileSize: number; // 40px, mengecil jika grid mode lebih besar dari default
+  gridWidth: number; // 8 tiles (default)
+  gridHeight: number; // 9 tiles (default)
   boardX: number; // Posisi X play area
   boardY: number; // Posisi Y play area
 }
 
 /**
- * Representasi tile di grid board
+ * Representasi tile di grid board (tanpa Phaser object, lihat BoardModel)
  */
 export interface GridTile {
   filled: boolean;
-  shapeImage?: Phaser.GameObjects.Image;
-  labelText?: Phaser.GameObjects.Text;
   shapeName?: string;
+  pieceId?: number; // Id LockedPiece yang menempati tile ini
+}
+
+/**
+ * Satu cell milik locked piece
+ */
+export interface PieceCell {
+  col: number; // Kolom di rotated matrix piece
+  row: number; // Baris di rotated matrix piece
+  x: number; // Posisi grid X saat ini
+  y: number; // Posisi grid Y saat ini
+}
+
+/**
+ * Tetromino yang sudah ter-lock di board
+ */
+export interface LockedPiece {
+  id: number;
+  shapeName: string;
+  rotation: number;
+  labels: string[];
+  x: number; // Posisi grid X saat di-lock
+  y: number; // Posisi grid Y saat di-lock
+  matrix: number[][]; // Rotated matrix saat di-lock
+  cells: PieceCell[]; // Cell yang masih ada di board
+}
+
+/**
+ * Hasil dari BoardModel.clearRows
+ */
+export interface LineClearResult {
+  rows: number[]; // Row yang di-clear (index sebelum shift)
+  affectedPieceIds: number[]; // Piece yang kehilangan minimal 1 cell
+  removedPieceIds: number[]; // Piece yang semua cell-nya hilang
+  movedPieceIds: number[]; // Piece yang cell-nya turun setelah clear
+}
+
+/**
+ * Serialized board state (lihat BoardModel.serialize)
+ */
+export interface BoardSnapshot {
+  width: number;
+  height: number;
+  nextPieceId: number;
+  pieces: LockedPiece[];
 }
 
 /**
@@ -63,7 +114,264 @@ export enum Direction {
 export interface GameplayConfig {
   type: string;
   special_tag: string[];
-  play_area: string;
+  play_area?: string; // Override texture "panel" dari asset pack mode (asset_manifest.json)
   instruction_text: string;
   instruction_text_color: string;
+  scoring?: Partial<ScoringRules>; // Default lihat DEFAULT_SCORING_RULES
+  rotation_system?: string; // "srs" (default, pakai kick tables) atau "basic"
+  randomizer?: string; // "gap" (default), "bag" (7-bag) atau "weighted"
+  shape_weights?: Record<string, number>; // Bobot per shape_name untuk randomizer "weighted" (default 1)
+  lock_delay?: Partial<LockDelayRules>; // Default lihat DEFAULT_LOCK_DELAY_RULES
+  gravity?: Partial<GravityRules>; // Default lihat DEFAULT_GRAVITY_RULES
+  grid_width?: number; // Default GAME_CONSTANTS.GRID_WIDTH (8)
+  grid_height?: number; // Default GAME_CONSTANTS.GRID_HEIGHT (9)
+}
+
+/**
+ * Satu asset pack di asset_manifest.json: key (dipakai di code) → path
+ */
+export interface AssetPack {
+  images?: Record<string, string>;
+  json?: Record<string, string>;
+  audio?: Record<string, string>;
+}
+
+/**
+ * public/asset_manifest.json - base pack di-load di preload, pack mode di-load setelah mode diketahui
+ * Pack mode meng-override key yang sama di base (mis. "panel" per mode)
+ */
+export interface AssetManifest {
+  base: AssetPack;
+  modes?: Record<string, AssetPack>;
+}
+
+export type AssetType = 'image' | 'json' | 'audio';
+
+/**
+ * Asset yang tidak tersedia setelah loading (lihat AssetLoader.reportMissing)
+ */
+export interface MissingAsset {
+  type: AssetType;
+  key: string;
+  url?: string; // Kosong jika key tidak ada di manifest
+  reason: 'load_error' | 'not_in_manifest';
+}
+
+/**
+ * Level & gravity curve per mode (gameplay_config.json → gravity)
+ */
+export interface GravityRules {
+  level_by: 'time' | 'pieces' | 'rows'; // Level naik berdasarkan detik, piece yang di-lock, atau rows yang di-clear
+  level_step: number; // Detik / pieces / rows per level
+  drop_intervals: number[]; // Drop interval (ms) per level, level terakhir berlaku seterusnya
+}
+
+/**
+ * Lock delay per mode (gameplay_config.json → lock_delay)
+ */
+export interface LockDelayRules {
+  delay_ms: number; // Waktu grounded sebelum lock, 0 = lock langsung
+  max_resets: number; // Jumlah move/rotate yang boleh me-reset timer per piece
+}
+
+/**
+ * Aturan score per mode (gameplay_config.json → scoring)
+ */
+export interface ScoringRules {
+  placement: number; // Per piece yang di-lock
+  per_tile: number; // Per tile dari piece yang di-lock
+  per_row: number; // Per row yang di-clear
+  multi_row_bonus: number; // Bonus per row tambahan dalam satu clear
+  low_stack_bonus: number; // Per row kosong di atas stack saat lock
+  skip_penalty: number; // Per skip setelah free_skips habis
+  switch_penalty: number; // Per switch setelah free_switches habis
+  free_skips: number;
+  free_switches: number;
+}
+
+/**
+ * Rincian score per kategori
+ */
+export interface ScoreBreakdown {
+  placement: number;
+  tiles: number;
+  rows: number;
+  lowStack: number;
+  skipPenalty: number;
+  switchPenalty: number;
+}
+
+/**
+ * Aksi player yang bisa di-record dan di-replay
+ */
+export type PlayerAction =
+  | 'moveLeft'
+  | 'moveRight'
+  | 'moveDown'
+  | 'rotate'
+  | 'skip'
+  | 'switch'
+  | 'softDropStart'
+  | 'softDropEnd'
+  | 'hardDrop'
+  | 'hold';
+
+/**
+ * Aksi yang bisa di-bind ke keyboard (softDrop = tahan untuk soft drop)
+ */
+export type KeyAction =
+  | 'moveLeft'
+  | 'moveRight'
+  | 'softDrop'
+  | 'hardDrop'
+  | 'rotate'
+  | 'skip'
+  | 'switch'
+  | 'hold';
+
+/**
+ * Key bindings: KeyboardEvent.code per aksi (contoh "ArrowLeft", "Space", "KeyX")
+ */
+export type KeyBindings = Record<KeyAction, string[]>;
+
+// Input device yang terakhir dipakai player (untuk indicator di UI)
+export type InputDevice = 'touch' | 'keyboard' | 'gamepad';
+
+/**
+ * Setting satu session (mode, timer, skills) yang menentukan hasil generation
+ */
+export interface SessionSettings {
+  gameplayType: string;
+  timer: number; // Detik
+  suggestedSkills: string[];
+  noDuplicates: string[];
+}
+
+/**
+ * Satu input yang di-record pada game tick tertentu
+ */
+export interface RecordedInput {
+  tick: number;
+  action: PlayerAction;
+}
+
+/**
+ * Recording lengkap satu session (cukup untuk replay deterministic)
+ */
+export interface InputRecording {
+  version: number;
+  seed: number;
+  tickMs: number;
+  session: SessionSettings;
+  inputs: RecordedInput[];
+  endTick: number; // Tick saat game over
+}
+
+/**
+ * Alasan game berakhir
+ */
+export type GameEndReason = 'timer' | 'no_spawn';
+
+/**
+ * Posisi cell di grid
+ */
+export interface GridCell {
+  x: number;
+  y: number;
+}
+
+/**
+ * Skill yang di-lock ke board
+ */
+export interface LockedSkillResult {
+  pieceId: number;
+  shape: string;
+  rotation: number;
+  labels: string[];
+  cells: GridCell[]; // Cell saat di-lock
+  remainingCells: GridCell[]; // Cell yang masih ada di akhir game (setelah line clear)
+  tick: number;
+}
+
+/**
+ * Skill yang di-skip (tidak di-lock)
+ */
+export interface SkippedSkillResult {
+  shape: string;
+  rotation: number;
+  labels: string[];
+  tick: number;
+}
+
+/**
+ * Skill yang shape-nya di-switch
+ */
+export interface SwitchedSkillResult {
+  fromShape: string;
+  toShape: string;
+  fromLabels: string[];
+  labels: string[]; // Labels setelah diadaptasi ke shape baru
+  tick: number;
+}
+
+/**
+ * Hasil akhir satu session (dikirim ke parent sebagai GAME_RESULT)
+ */
+export interface GameResult {
+  mode: string;
+  seed: number;
+  endReason: GameEndReason;
+  timeUsed: number; // Detik
+  timeLimit: number; // Detik
+  fillPercentage: number; // 0-100
+  holes: number;
+  score: number;
+  scoreBreakdown: ScoreBreakdown;
+  level: number; // Level terakhir (gravity curve)
+  grid: { width: number; height: number };
+  locked: LockedSkillResult[];
+  skipped: SkippedSkillResult[];
+  switched: SwitchedSkillResult[];
+}
+
+/**
+ * Data untuk ResultsScene (di-launch di atas TetrisScene setelah game over)
+ */
+export interface ResultsSceneData {
+  result: GameResult;
+  screenshot: string | null; // PNG data URL play area (null jika capture gagal)
+  onPlayAgain: () => void;
+}
+
+/**
+ * Halaman pause overlay (info button langsung membuka howToPlay)
+ */
+export type PausePage = 'menu' | 'howToPlay';
+
+/**
+ * Data untuk PauseScene (di-launch di atas TetrisScene saat pause)
+ */
+export interface PauseSceneData {
+  page: PausePage;
+  instruction: string; // instruction_text mode
+  isMuted: boolean;
+  getHowToPlay: () => string[]; // Cara main sesuai special_tag mode dan key bindings aktif
+  getControls: () => { label: string; value: string }[]; // Key bindings aktif
+  onRemap: (index: number, onDone: () => void) => void; // Tunggu key baru untuk row ini
+  onResume: () => void;
+  onRestart: () => void;
+  onMuteToggle: (isMuted: boolean) => void;
+}
+
+/**
+ * Global di window untuk devtools / support team (di-set oleh TetrisScene)
+ */
+declare global {
+  interface Window {
+    tetrisReplay?: (recording: InputRecording, speed?: number) => void;
+    tetrisLastResult?: GameResult;
+    tetrisLastRecording?: InputRecording;
+    tetrisGameOverScreenshot?: string; // PNG data URL play area
+    tetrisMissingAssets?: MissingAsset[];
+  }
 }
@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Parent origins yang diizinkan, dipisah koma (lihat GAME_CONSTANTS.ALLOWED_PARENT_ORIGINS)
+  readonly VITE_ALLOWED_PARENT_ORIGINS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}